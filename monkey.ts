@@ -0,0 +1,4 @@
+#!/usr/bin/env bun
+import {main} from './src/cli';
+
+process.exit(await main(process.argv.slice(2), process.stderr.isTTY === true, process.stdin.isTTY === true))
@@ -1,11 +1,16 @@
-import {Token} from './token';
+import {Span, Token, TokenType} from './token';
+import {Diagnostic} from './diagnostics';
+import {quote} from './printer';
 
 export interface Node {
     tokenLiteral(): string
 }
 
 export abstract class Statement implements Node {
+    span: Span
+
     protected constructor(public readonly token: Token) {
+        this.span = token.span
     }
 
     tokenLiteral(): string {
@@ -37,41 +42,140 @@ export abstract class StringValue extends Statement {
 export class Identifier extends StringValue {
 }
 
+export class ArrayPattern extends Statement {
+    constructor(token: Token, public readonly elements: Array<Pattern>, public readonly rest: Identifier | null) {
+        super(token);
+    }
+
+    toString(): string {
+        const rest = this.rest !== null ? [`...${this.rest}`] : []
+        return `[${[...this.elements, ...rest].join(', ')}]`
+    }
+}
+
+export class HashPattern extends Statement {
+    constructor(token: Token, public readonly entries: Array<[Expression, Pattern]>) {
+        super(token);
+    }
+
+    toString(): string {
+        const entries = this.entries.map(([key, pattern]) => `${key instanceof StringLiteral ? quote(key.value) : key}: ${pattern}`)
+        return `{${entries.join(', ')}}`
+    }
+}
+
+// only valid in match arms, which may fail to match
+export class LiteralPattern extends Statement {
+    constructor(token: Token, public readonly value: Expression) {
+        super(token);
+    }
+
+    toString(): string {
+        return this.value.toString()
+    }
+}
+
+export class WildcardPattern extends Statement {
+    constructor(token: Token) {
+        super(token);
+    }
+
+    toString(): string {
+        return this.tokenLiteral()
+    }
+}
+
+export type Pattern = Identifier | ArrayPattern | HashPattern | LiteralPattern | WildcardPattern
+
+/**
+ * A parameter is named after its pattern when it destructures its argument.
+ */
+export class Parameter extends Identifier {
+    constructor(token: Token,
+                value: string,
+                public readonly defaultValue: Expression | null = null,
+                public readonly rest = false,
+                public readonly pattern: ArrayPattern | HashPattern | null = null) {
+        super(token, value);
+    }
+
+    toString(): string {
+        if (this.rest) {
+            return `...${this.value}`
+        }
+        return this.defaultValue !== null ? `${this.value} = ${this.defaultValue}` : this.value
+    }
+}
+
 export class StringLiteral extends StringValue {
 }
 
+export class ErrorNode extends Statement {
+    constructor(token: Token, public readonly diagnostic: Diagnostic) {
+        super(token);
+    }
+
+    toString(): string {
+        return '<error>'
+    }
+}
+
+export class InterpolatedString extends Statement {
+    constructor(token: Token, public readonly parts: Array<Expression>) {
+        super(token);
+    }
+
+    toString(): string {
+        return `"${this.parts.map(part => part instanceof StringLiteral ? part : `\${${part}}`).join('')}"`
+    }
+}
+
 export class LetStatement extends Statement {
-    constructor(token: Token, public name: Identifier, public value: Expression | null) {
+    constructor(token: Token, public name: Identifier, public value: Expression) {
         super(token);
     }
 
+    get constant(): boolean {
+        return this.token.tokenType === TokenType.CONST
+    }
+
     toString(): string {
-        return `${this.tokenLiteral()} ${this.name} = ${this.value !== null ? this.value.toString() : ''}`
+        return `${this.tokenLiteral()} ${this.name} = ${this.value}`
+    }
+}
+
+export class DestructuringLetStatement extends Statement {
+    constructor(token: Token, public readonly pattern: ArrayPattern | HashPattern, public readonly value: Expression) {
+        super(token);
+    }
+
+    get constant(): boolean {
+        return this.token.tokenType === TokenType.CONST
+    }
+
+    toString(): string {
+        return `${this.tokenLiteral()} ${this.pattern} = ${this.value}`
     }
 }
 
 export class ExpressionStatement extends Statement {
-    constructor(token: Token, public expression: Expression | null) {
+    constructor(token: Token, public expression: Expression) {
         super(token);
     }
 
     toString(): string {
-        if (this.expression !== null) {
-            return this.expression.toString()
-        }
-        return ''
+        return this.expression.toString()
     }
 
 }
 
 export class ReturnStatement extends Statement {
-    constructor(token: Token, public returnValue: Expression | null) {
+    constructor(token: Token, public returnValue: Expression) {
         super(token);
     }
 
     toString(): string {
-        const returnString = this.returnValue !== null ? this.returnValue.toString() : ''
-        return `${this.tokenLiteral()} ${returnString}`
+        return `${this.tokenLiteral()} ${this.returnValue}`
     }
 }
 
@@ -85,14 +189,27 @@ abstract class LiteralExpression<T> extends Statement {
     }
 }
 
-export class IntegerLiteral extends LiteralExpression<number> {
+export class IntegerLiteral extends LiteralExpression<number | bigint> {
+}
+
+export class FloatLiteral extends LiteralExpression<number> {
 }
 
 export class BooleanLiteral extends LiteralExpression<boolean> {
 }
 
+export class NullLiteral extends Statement {
+    constructor(token: Token) {
+        super(token);
+    }
+
+    toString(): string {
+        return this.tokenLiteral()
+    }
+}
+
 export class PrefixExpression extends Statement {
-    constructor(token: Token, public operator: string, public right: Expression | null) {
+    constructor(token: Token, public operator: string, public right: Expression) {
         super(token);
     }
 
@@ -102,7 +219,7 @@ export class PrefixExpression extends Statement {
 }
 
 export class InfixExpression extends Statement {
-    constructor(token: Token, public left: Expression | null, public operator: string, public right: Expression | null) {
+    constructor(token: Token, public left: Expression, public operator: string, public right: Expression) {
         super(token);
     }
 
@@ -111,15 +228,70 @@ export class InfixExpression extends Statement {
     }
 }
 
-export type ExpressionList = Array<Expression | null> | null
+export class RangeExpression extends Statement {
+    constructor(token: Token,
+                public readonly start: Expression,
+                public readonly end: Expression,
+                public readonly inclusive: boolean,
+                public readonly step: Expression | null) {
+        super(token);
+    }
+
+    toString(): string {
+        const step = this.step !== null ? ` step ${this.step}` : ''
+        return `(${this.start}${this.tokenLiteral()}${this.end}${step})`
+    }
+}
+
+export class AssignExpression extends Statement {
+    constructor(token: Token, public readonly target: Expression, public readonly operator: string, public readonly value: Expression) {
+        super(token);
+    }
+
+    toString(): string {
+        return `(${this.target} ${this.operator} ${this.value})`
+    }
+}
+
+export type ExpressionList = Array<Expression>
+
+// the `_` argument of a partially applied call
+export class Placeholder extends Statement {
+    constructor(token: Token) {
+        super(token);
+    }
 
+    toString(): string {
+        return this.tokenLiteral()
+    }
+}
+
+/**
+ * `left |> f(a)` evaluates as `f(left, a)`, kept next to the source form so it prints as written.
+ */
+export class PipeExpression extends Statement {
+    constructor(token: Token, public readonly left: Expression, public readonly right: Expression, public readonly call: CallExpression) {
+        super(token);
+    }
+
+    toString(): string {
+        return `(${this.left} |> ${this.right})`
+    }
+}
+
+// an optional call or index evaluates to null instead of failing when its target is null
 export class CallExpression extends Statement {
-    constructor(token: Token, public fun: Expression | null, public args: ExpressionList) {
+    constructor(token: Token, public fun: Expression, public args: ExpressionList, public readonly optional = false) {
         super(token);
     }
 
+    // a call with placeholder arguments evaluates to a function taking the missing ones
+    get partial(): boolean {
+        return this.args.some(arg => arg instanceof Placeholder)
+    }
+
     toString(): string {
-        return `${this.fun?.toString()}(${this.args?.join(', ')})`
+        return `${this.fun}${this.optional ? '?.' : ''}(${this.args.join(', ')})`
     }
 }
 
@@ -129,36 +301,68 @@ export class ArrayLiteral extends Statement {
     }
 
     toString(): string {
-        return `[${this.elements?.join(', ')}]`
+        return `[${this.elements.join(', ')}]`
     }
 
 }
 
 export class IndexExpression extends Statement {
-    constructor(token: Token, public left: Expression | null, public index: Expression | null) {
+    constructor(token: Token, public left: Expression, public index: Expression, public readonly optional = false) {
+        super(token);
+    }
+
+    toString(): string {
+        return `(${this.left}${this.optional ? '?.' : ''}[${this.index}])`
+    }
+}
+
+export class SliceExpression extends Statement {
+    constructor(token: Token,
+                public readonly left: Expression,
+                public readonly start: Expression | null,
+                public readonly end: Expression | null,
+                public readonly optional = false) {
+        super(token);
+    }
+
+    toString(): string {
+        return `(${this.left}${this.optional ? '?.' : ''}[${this.start ?? ''}:${this.end ?? ''}])`
+    }
+}
+
+// only valid as an element of an array, hash or argument list
+export class SpreadElement extends Statement {
+    constructor(token: Token, public readonly value: Expression) {
         super(token);
     }
 
     toString(): string {
-        return `(${this.left?.toString()}[${this.index?.toString()}])`
+        return `...${this.value}`
+    }
+}
+
+export class MemberExpression extends Statement {
+    constructor(token: Token, public readonly object: Expression, public readonly property: Identifier, public readonly optional = false) {
+        super(token);
+    }
+
+    toString(): string {
+        return `(${this.object}${this.optional ? '?.' : '.'}${this.property})`
     }
 }
 
 export class BlockStatement extends Statement {
-    constructor(token: Token, public statements: ExpressionList) {
+    constructor(token: Token, public statements: Array<Statement>) {
         super(token);
     }
 
     toString(): string {
-        if (this.statements === null) {
-            return ''
-        }
-        return this.statements?.join('')
+        return this.statements.join('')
     }
 }
 
 export class IfExpression extends Statement {
-    constructor(token: Token, public readonly condition: Expression | null, public readonly consequence: BlockStatement | null, public readonly alternative: BlockStatement | null) {
+    constructor(token: Token, public readonly condition: Expression, public readonly consequence: BlockStatement, public readonly alternative: BlockStatement | null) {
         super(token);
     }
 
@@ -167,16 +371,87 @@ export class IfExpression extends Statement {
     }
 }
 
+export class WhileStatement extends Statement {
+    constructor(token: Token, public readonly condition: Expression, public readonly body: BlockStatement) {
+        super(token);
+    }
+
+    toString(): string {
+        return `while ${this.condition} ${this.body}`
+    }
+}
+
+export class ForStatement extends Statement {
+    constructor(token: Token, public readonly variable: Identifier, public readonly iterable: Expression, public readonly body: BlockStatement) {
+        super(token);
+    }
+
+    toString(): string {
+        return `for (${this.variable} in ${this.iterable}) ${this.body}`
+    }
+}
+
+export class BreakStatement extends Statement {
+    constructor(token: Token) {
+        super(token);
+    }
+
+    toString(): string {
+        return this.tokenLiteral()
+    }
+}
+
+export class ContinueStatement extends Statement {
+    constructor(token: Token) {
+        super(token);
+    }
+
+    toString(): string {
+        return this.tokenLiteral()
+    }
+}
+
+export class MatchArm {
+    constructor(public readonly pattern: Pattern, public readonly guard: Expression | null, public readonly body: Expression) {
+    }
+
+    toString(): string {
+        const guard = this.guard !== null ? ` if ${this.guard}` : ''
+        return `${this.pattern}${guard} => ${this.body}`
+    }
+}
+
+export class MatchExpression extends Statement {
+    constructor(token: Token, public readonly subject: Expression, public readonly arms: Array<MatchArm>) {
+        super(token);
+    }
+
+    toString(): string {
+        return `match (${this.subject}) { ${this.arms.join(', ')} }`
+    }
+}
+
+/**
+ * Lambdas written as `|x| x * 2` or `x => x * 2` are shorthand functions, printed in the `|x|` form.
+ */
 export class FunctionLiteral extends Statement {
-    constructor(token: Token, public readonly parameters: Array<Identifier> | null, public readonly body: BlockStatement | null, public readonly name: string = '') {
+    constructor(token: Token,
+                public readonly parameters: Array<Parameter>,
+                public readonly body: BlockStatement,
+                public readonly name: string = '',
+                public readonly shorthand = false) {
         super(token);
     }
 
     toString(): string {
-        return `${this.tokenLiteral()}${(this.name.length != 0 ? `<${this.name}>` : '')}(${this.parameters?.join('')}) ${this.body}`
+        if (this.shorthand) {
+            return `|${this.parameters.join(', ')}| ${this.body}`
+        }
+        return `${this.tokenLiteral()}${(this.name.length != 0 ? `<${this.name}>` : '')}(${this.parameters.join('')}) ${this.body}`
     }
 }
 
+// a spread is kept as a key whose value is the spread expression
 export class HashLiteral extends Statement {
     constructor(token: Token, public readonly pairs: Map<Expression, Expression>) {
         super(token);
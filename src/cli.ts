@@ -0,0 +1,167 @@
+import {FSWatcher, readFileSync, watch} from 'fs';
+import {basename, dirname} from 'path';
+import {Lexer} from './lexer';
+import {Parser} from './parser';
+import {Environment, evaluate} from './evaluator';
+import {MArray, MError, MString} from './objects';
+import {renderDiagnostic, renderDiagnostics} from './diagnostics';
+import {outputSink} from './output';
+import {startRepl} from './repl';
+
+export enum ExitCode {
+    OK = 0,
+    RUNTIME_ERROR = 1,
+    SYNTAX_ERROR = 2,
+    USAGE_ERROR = 64,
+}
+
+export const USAGE = `usage:
+  monkey                                 start the REPL
+  monkey run [--watch] <file> [args...]   run a script, - reads it from stdin
+  monkey < script.mk                     run a script piped to stdin
+  monkey -e <code> [args...]             run code given on the command line
+  monkey --help                          show this message`
+
+export class UsageError extends Error {
+}
+
+export type Command =
+    | { kind: 'run', file: string, args: string[], watch: boolean }
+    | { kind: 'eval', source: string, args: string[] }
+    | { kind: 'repl' }
+    | { kind: 'help' }
+
+// without arguments a program piped to stdin runs, an interactive terminal gets the REPL
+export function parseCommand(argv: string[], interactive = true): Command {
+    const [first, ...rest] = argv
+    switch (first) {
+        case undefined:
+            return interactive ? {kind: 'repl'} : {kind: 'run', file: '-', args: [], watch: false}
+        case '-h':
+        case '--help':
+            return {kind: 'help'}
+        case '-e':
+            if (rest.length === 0) {
+                throw new UsageError('-e needs the code to run')
+            }
+            return {kind: 'eval', source: rest[0], args: rest.slice(1)}
+        case 'run': {
+            const watch = rest[0] === '--watch'
+            const [file, ...args] = watch ? rest.slice(1) : rest
+            if (file === undefined) {
+                throw new UsageError('run needs a file to run')
+            }
+            if (watch && file === '-') {
+                throw new UsageError("--watch can't be used with stdin")
+            }
+            return {kind: 'run', file, args, watch}
+        }
+        default:
+            throw new UsageError(`unknown command: ${first}`)
+    }
+}
+
+/**
+ * Runs a whole program in a fresh environment where `args` holds the script arguments.
+ * Parser and runtime errors go to the error stream of the output sink.
+ */
+export function runSource(source: string, args: string[], color = false): ExitCode {
+    const sink = outputSink()
+    const parser = new Parser(new Lexer(source))
+    const program = parser.parseProgram()
+    const diagnostics = parser.diagnostics()
+    if (diagnostics.length > 0) {
+        sink.writeError(`${renderDiagnostics(diagnostics, source, color)}\n`)
+        return ExitCode.SYNTAX_ERROR
+    }
+    const env = Environment.newEnvironment()
+    env.set('args', new MArray(args.map(arg => new MString(arg))))
+    const result = evaluate(program, env)
+    if (result instanceof MError) {
+        sink.writeError(`${renderDiagnostic(result.diagnostic(), source, color)}\n`)
+        return ExitCode.RUNTIME_ERROR
+    }
+    return ExitCode.OK
+}
+
+function readSource(file: string): string {
+    // file descriptor 0 is stdin
+    return readFileSync(file === '-' ? 0 : file, 'utf8')
+}
+
+function runFile(file: string, args: string[], color: boolean): ExitCode {
+    let source: string
+    try {
+        source = readSource(file)
+    } catch (e) {
+        outputSink().writeError(`monkey: can't read ${file}: ${(e as Error).message}\n`)
+        return ExitCode.USAGE_ERROR
+    }
+    return runSource(source, args, color)
+}
+
+function watchFile(file: string, args: string[], color: boolean): Promise<ExitCode> {
+    if (runFile(file, args, color) === ExitCode.USAGE_ERROR) {
+        return Promise.resolve(ExitCode.USAGE_ERROR)
+    }
+    return new Promise(resolve => {
+        const stop = (e: Error) => {
+            outputSink().writeError(`monkey: can't watch ${file}: ${e.message}\n`)
+            resolve(ExitCode.USAGE_ERROR)
+        }
+        // editors often save in several steps, so wait for the writes to settle
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const name = basename(file)
+        let watcher: FSWatcher
+        try {
+            // saving by renaming a temporary file over the script replaces it, so watch its directory instead
+            watcher = watch(dirname(file), (_, changed) => {
+                if (changed !== null && changed !== name) {
+                    return
+                }
+                clearTimeout(timer)
+                timer = setTimeout(() => {
+                    outputSink().writeError(`\n[${file} changed, running again]\n`)
+                    runFile(file, args, color)
+                }, 100)
+            })
+        } catch (e) {
+            stop(e as Error)
+            return
+        }
+        watcher.on('error', e => {
+            clearTimeout(timer)
+            watcher.close()
+            stop(e)
+        })
+    })
+}
+
+export async function main(argv: string[], color = false, interactive = true): Promise<ExitCode> {
+    let command: Command
+    try {
+        command = parseCommand(argv, interactive)
+    } catch (e) {
+        if (e instanceof UsageError) {
+            outputSink().writeError(`monkey: ${e.message}\n${USAGE}\n`)
+            return ExitCode.USAGE_ERROR
+        }
+        throw e
+    }
+    switch (command.kind) {
+        case 'repl':
+            startRepl()
+            // the REPL ends the process itself once its input closes
+            return new Promise(() => undefined)
+        case 'help':
+            outputSink().write(`${USAGE}\n`)
+            return ExitCode.OK
+        case 'eval':
+            return runSource(command.source, command.args, color)
+        case 'run':
+            if (command.watch) {
+                return watchFile(command.file, command.args, color)
+            }
+            return runFile(command.file, command.args, color)
+    }
+}
@@ -0,0 +1,129 @@
+import {Span} from './token';
+
+export enum Severity {
+    ERROR = 'error',
+    WARNING = 'warning',
+}
+
+export enum ErrorCode {
+    ILLEGAL_CHARACTER = 'L0001',
+    UNTERMINATED_COMMENT = 'L0002',
+    UNTERMINATED_STRING = 'L0003',
+    INVALID_ESCAPE = 'L0004',
+    NO_PREFIX_PARSER = 'P0001',
+    INVALID_INTEGER = 'P0002',
+    UNEXPECTED_TOKEN = 'P0003',
+    INVALID_INTERPOLATION = 'P0004',
+    INVALID_FLOAT = 'P0005',
+    OUTSIDE_LOOP = 'P0006',
+    INVALID_ASSIGNMENT_TARGET = 'P0007',
+    INVALID_PARAMETER = 'P0008',
+    INVALID_PATTERN = 'P0009',
+    UNKNOWN_IDENTIFIER = 'R0001',
+    TYPE_MISMATCH = 'R0002',
+    UNKNOWN_OPERATOR = 'R0003',
+    NOT_A_FUNCTION = 'R0004',
+    INDEX_NOT_SUPPORTED = 'R0005',
+    UNUSABLE_HASH_KEY = 'R0006',
+    WRONG_ARGUMENTS = 'R0007',
+    INVALID_ARGUMENT = 'R0008',
+    SYNTAX_ERROR = 'R0009',
+    DIVISION_BY_ZERO = 'R0010',
+    NOT_ITERABLE = 'R0011',
+    CONSTANT_REASSIGNMENT = 'R0012',
+    INDEX_OUT_OF_BOUNDS = 'R0013',
+    PATTERN_MISMATCH = 'R0014',
+    NO_MATCH = 'R0015',
+}
+
+export class Diagnostic {
+    constructor(public readonly severity: Severity,
+                public readonly code: string,
+                public readonly message: string,
+                public readonly span: Span | null,
+                public readonly notes: string[] = [],
+                public readonly suggestions: string[] = []) {
+    }
+
+    static error(code: string, message: string, span: Span | null, notes: string[] = [], suggestions: string[] = []): Diagnostic {
+        return new Diagnostic(Severity.ERROR, code, message, span, notes, suggestions)
+    }
+
+    toString(): string {
+        const location = this.span !== null ? ` at ${this.span.start}` : ''
+        return `${this.severity}[${this.code}]${location}: ${this.message}`
+    }
+}
+
+function distance(a: string, b: string): number {
+    const d: number[][] = Array.from({length: a.length + 1}, (_, i) => [i])
+    for (let j = 1; j <= b.length; j++) {
+        d[0][j] = j
+    }
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+            }
+        }
+    }
+    return d[a.length][b.length]
+}
+
+export function suggest(name: string, candidates: Iterable<string>, limit = 3): string[] {
+    const maxDistance = Math.max(1, Math.floor(name.length / 3))
+    const scored = new Map<string, number>()
+    for (const candidate of candidates) {
+        const d = distance(name, candidate)
+        if (candidate !== name && d <= maxDistance) {
+            scored.set(candidate, d)
+        }
+    }
+    return [...scored.entries()]
+        .sort(([a, da], [b, db]) => da - db || a.localeCompare(b))
+        .slice(0, limit)
+        .map(([candidate]) => candidate)
+}
+
+const RESET = '\x1b[0m'
+const BOLD = '\x1b[1m'
+const RED = '\x1b[31m'
+const YELLOW = '\x1b[33m'
+const BLUE = '\x1b[34m'
+
+export function renderDiagnostic(diagnostic: Diagnostic, source: string, color = false): string {
+    const paint = (style: string, text: string) => color ? `${style}${text}${RESET}` : text
+    const severityStyle = diagnostic.severity === Severity.ERROR ? RED : YELLOW
+    const lines = [
+        `${paint(BOLD + severityStyle, `${diagnostic.severity}[${diagnostic.code}]`)}${paint(BOLD, `: ${diagnostic.message}`)}`
+    ]
+    const span = diagnostic.span
+    let gutter = ''
+    if (span !== null) {
+        const lineNumber = span.start.line.toString()
+        gutter = ' '.repeat(lineNumber.length)
+        const sourceLine = source.split('\n')[span.start.line - 1] ?? ''
+        const startColumn = span.start.column
+        const endColumn = span.end.line === span.start.line ? span.end.column : sourceLine.length + 1
+        const padding = sourceLine.substring(0, startColumn - 1).replace(/[^\t]/g, ' ')
+        const carets = '^'.repeat(Math.max(1, endColumn - startColumn))
+        lines.push(`${gutter}${paint(BLUE, '-->')} ${span.start}`)
+        lines.push(`${gutter} ${paint(BLUE, '|')}`)
+        lines.push(`${paint(BLUE, `${lineNumber} |`)} ${sourceLine}`)
+        lines.push(`${gutter} ${paint(BLUE, '|')} ${padding}${paint(BOLD + severityStyle, carets)}`)
+    }
+    diagnostic.notes.forEach((note) => {
+        lines.push(`${gutter} ${paint(BLUE, '=')} ${paint(BOLD, 'note')}: ${note}`)
+    })
+    if (diagnostic.suggestions.length > 0) {
+        const names = diagnostic.suggestions.map(s => `\`${s}\``).join(', ')
+        lines.push(`${gutter} ${paint(BLUE, '=')} ${paint(BOLD, 'help')}: did you mean ${names}?`)
+    }
+    return lines.join('\n')
+}
+
+export function renderDiagnostics(diagnostics: Diagnostic[], source: string, color = false): string {
+    return diagnostics.map(diagnostic => renderDiagnostic(diagnostic, source, color)).join('\n\n')
+}
@@ -1,51 +1,94 @@
 import {
     ArrayLiteral,
+    ArrayPattern,
+    AssignExpression,
     BlockStatement,
     BooleanLiteral,
+    BreakStatement,
     CallExpression,
+    ContinueStatement,
+    DestructuringLetStatement,
+    ErrorNode,
+    Expression,
     ExpressionList,
     ExpressionStatement,
+    FloatLiteral,
+    ForStatement,
     FunctionLiteral,
     HashLiteral,
+    HashPattern,
     Identifier,
     IfExpression,
     IndexExpression,
     InfixExpression,
     IntegerLiteral,
+    InterpolatedString,
     LetStatement,
+    LiteralPattern,
+    MatchExpression,
+    MemberExpression,
     Node,
+    NullLiteral,
+    Pattern,
+    PipeExpression,
+    Placeholder,
     PrefixExpression,
     Program,
+    RangeExpression,
     ReturnStatement,
-    StringLiteral
+    SliceExpression,
+    SpreadElement,
+    Statement,
+    StringLiteral,
+    WhileStatement,
+    WildcardPattern
 } from './ast';
 import {
     builtins,
+    compare,
+    equals,
     HashPair,
+    iterator,
+    M_BREAK,
+    M_CONTINUE,
     M_NULL,
     MArray,
     MBoolean, MBuiltinFunction,
     MError,
+    MFloat,
     MFunction,
     MHash,
     MInteger,
+    MLoopSignal,
     MObject,
+    MRange,
     MReturnValue,
     MString,
     MValue,
     typeDesc
 } from './objects';
+import {ErrorCode, suggest} from './diagnostics';
+import {display, print} from './printer';
+
+export interface EvaluatorOptions {
+    // a match without a matching arm is an error instead of null
+    strictMatch?: boolean
+}
 
 export class Environment {
-    private constructor(private readonly store: Map<string, MObject>, private readonly outer: Environment | null) {
+    private readonly constants = new Set<string>()
+
+    private constructor(private readonly store: Map<string, MObject>,
+                        private readonly outer: Environment | null,
+                        readonly options: EvaluatorOptions) {
     }
 
-    static newEnvironment(): Environment {
-        return new Environment(new Map<string, MObject>(), null)
+    static newEnvironment(options: EvaluatorOptions = {}): Environment {
+        return new Environment(new Map<string, MObject>(), null, options)
     }
 
     static newEnclosedEnvironment(outer: Environment): Environment {
-        return new Environment(new Map<string, MObject>(), outer)
+        return new Environment(new Map<string, MObject>(), outer, outer.options)
     }
 
     set(name: string, value: MObject) {
@@ -57,6 +100,43 @@ export class Environment {
         return value;
     }
 
+    /**
+     * Binds a new name in this scope, which may shadow outer bindings but not a constant of this scope.
+     */
+    declare(name: string, value: MObject, constant = false): MObject {
+        if (this.constants.has(name)) {
+            return new MError(`cannot redeclare constant ${name}`, ErrorCode.CONSTANT_REASSIGNMENT)
+        }
+        if (constant) {
+            this.constants.add(name)
+        }
+        return this.put(name, value)
+    }
+
+    /**
+     * Updates the nearest enclosing binding of name.
+     */
+    assign(name: string, value: MObject): MObject {
+        if (this.store.has(name)) {
+            if (this.constants.has(name)) {
+                return new MError(`cannot assign to constant ${name}`, ErrorCode.CONSTANT_REASSIGNMENT)
+            }
+            return this.put(name, value)
+        }
+        if (this.outer !== null) {
+            return this.outer.assign(name, value)
+        }
+        return new MError(`cannot assign to undeclared identifier: ${name}`, ErrorCode.UNKNOWN_IDENTIFIER, suggest(name, this.names()))
+    }
+
+    names(): string[] {
+        const names = [...this.store.keys()]
+        if (this.outer !== null) {
+            names.push(...this.outer.names())
+        }
+        return names
+    }
+
     get(name: string): MObject | null {
         const obj = this.store.get(name)
         if (obj === undefined && this.outer !== null) {
@@ -120,36 +200,132 @@ function evalBangOperatorExpression(right: MObject): MObject {
 function evalMinusPrefixOperatorExpression(right: MObject): MObject {
     if (right instanceof MInteger) {
         return new MInteger(-right.getValue())
+    } else if (right instanceof MFloat) {
+        return new MFloat(-right.getValue())
     } else {
-        return new MError(`unknown operator: -${typeDesc(right)}`)
+        return new MError(`unknown operator: -${typeDesc(right)}`, ErrorCode.UNKNOWN_OPERATOR)
+    }
+}
+
+function isTruthy(condition: MObject): boolean {
+    if (condition === NULL) {
+        return false
+    }
+    if (condition === TRUE) {
+        return true
     }
+    return condition !== FALSE;
+
 }
 
 function toMonkey(bool: boolean) {
     return bool ? TRUE : FALSE
 }
 
+function divisionByZero(): MError {
+    return new MError('division by zero', ErrorCode.DIVISION_BY_ZERO)
+}
+
 function evalIntegerInfixExpression(operator: string, left: MInteger, right: MInteger): MObject {
+    const l = left.getValue()
+    const r = right.getValue()
+    // plain numbers are used while the result stays in the safe range, anything else is redone exactly
+    const small = typeof l === 'number' && typeof r === 'number'
+    let result = 0
+    switch (operator) {
+        case '+':
+            if (small && Number.isSafeInteger(result = l + r)) {
+                return new MInteger(result)
+            }
+            return new MInteger(BigInt(l) + BigInt(r))
+        case '-':
+            if (small && Number.isSafeInteger(result = l - r)) {
+                return new MInteger(result)
+            }
+            return new MInteger(BigInt(l) - BigInt(r))
+        case '*':
+            if (small && Number.isSafeInteger(result = l * r)) {
+                return new MInteger(result)
+            }
+            return new MInteger(BigInt(l) * BigInt(r))
+        case '/':
+            if (r === 0) {
+                return divisionByZero()
+            }
+            return small ? new MInteger((l - l % r) / r) : new MInteger(BigInt(l) / BigInt(r))
+        case '%':
+            if (r === 0) {
+                return divisionByZero()
+            }
+            return small ? new MInteger(l % r) : new MInteger(BigInt(l) % BigInt(r))
+        case '<':
+            return toMonkey(l < r)
+        case '>':
+            return toMonkey(l > r)
+        case '<=':
+            return toMonkey(l <= r)
+        case '>=':
+            return toMonkey(l >= r)
+        case '==':
+            return toMonkey(l === r)
+        case '!=':
+            return toMonkey(l !== r)
+        default:
+            return new MError(`unknown operator: ${typeDesc(left)} ${operator} ${typeDesc(right)}`, ErrorCode.UNKNOWN_OPERATOR)
+    }
+}
 
+function evalFloatInfixExpression(operator: string, leftNumber: MInteger | MFloat, rightNumber: MInteger | MFloat): MObject {
+    const left = Number(leftNumber.getValue())
+    const right = Number(rightNumber.getValue())
     switch (operator) {
         case '+':
-            return new MInteger(left.getValue() + right.getValue())
+            return new MFloat(left + right)
         case '-':
-            return new MInteger(left.getValue() - right.getValue())
+            return new MFloat(left - right)
         case '*':
-            return new MInteger(left.getValue() * right.getValue())
+            return new MFloat(left * right)
         case '/':
-            return new MInteger(left.getValue() / right.getValue())
+            return right === 0 ? divisionByZero() : new MFloat(left / right)
+        case '%':
+            return right === 0 ? divisionByZero() : new MFloat(left % right)
         case '<':
-            return toMonkey(left.getValue() < right.getValue())
+            return toMonkey(left < right)
         case '>':
-            return toMonkey(left.getValue() > right.getValue())
+            return toMonkey(left > right)
+        case '<=':
+            return toMonkey(left <= right)
+        case '>=':
+            return toMonkey(left >= right)
         case '==':
-            return toMonkey(left.getValue() === right.getValue())
+            return toMonkey(left === right)
         case '!=':
-            return toMonkey(left.getValue() !== right.getValue())
+            return toMonkey(left !== right)
         default:
-            return new MError(`unknown operator: ${typeDesc(left)} ${operator} ${typeDesc(right)}`)
+            return new MError(`unknown operator: ${typeDesc(leftNumber)} ${operator} ${typeDesc(rightNumber)}`, ErrorCode.UNKNOWN_OPERATOR)
+    }
+}
+
+function isNumber(obj: MObject): obj is MInteger | MFloat {
+    return obj instanceof MInteger || obj instanceof MFloat
+}
+
+const ORDERING_OPERATORS = new Set(['<', '>', '<=', '>='])
+
+function evalOrderingExpression(operator: string, left: MObject, right: MObject): MObject {
+    const result = compare(left, right)
+    if (result === null) {
+        return new MError(`values can't be ordered: ${left.inspect()} ${operator} ${right.inspect()}`, ErrorCode.TYPE_MISMATCH)
+    }
+    switch (operator) {
+        case '<':
+            return toMonkey(result < 0)
+        case '>':
+            return toMonkey(result > 0)
+        case '<=':
+            return toMonkey(result <= 0)
+        default:
+            return toMonkey(result >= 0)
     }
 }
 
@@ -157,60 +333,385 @@ function evalInfixExpression(operator: string, left: MObject, right: MObject): M
     if (left instanceof MInteger && right instanceof MInteger) {
         return evalIntegerInfixExpression(operator, left, right)
     }
+    // mixed integer and float operands are promoted to float
+    if (isNumber(left) && isNumber(right)) {
+        return evalFloatInfixExpression(operator, left, right)
+    }
     if (operator === '==') {
-        return toMonkey(left === right)
+        return toMonkey(equals(left, right))
     }
     if (operator === '!=') {
-        return toMonkey(left !== right)
+        return toMonkey(!equals(left, right))
     }
     if (typeDesc(left) != typeDesc(right)) {
-        return new MError(`type mismatch: ${typeDesc(left)} ${operator} ${typeDesc(right)}`)
+        return new MError(`type mismatch: ${typeDesc(left)} ${operator} ${typeDesc(right)}`, ErrorCode.TYPE_MISMATCH)
     }
     if ((left instanceof MString && right instanceof MString) && operator === '+') {
         return new MString(left.getValue() + right.getValue())
     }
-    return new MError(`unknown operator: ${typeDesc(left)} ${operator} ${typeDesc(right)}`)
+    if (ORDERING_OPERATORS.has(operator) && (left instanceof MString || left instanceof MArray)) {
+        return evalOrderingExpression(operator, left, right)
+    }
+    return new MError(`unknown operator: ${typeDesc(left)} ${operator} ${typeDesc(right)}`, ErrorCode.UNKNOWN_OPERATOR)
+
+}
+
+function evalLogicalExpression(node: InfixExpression, env: Environment): MObject | null {
+    return ifNotError(evaluateNode(node.left, env), (left) => {
+        // the right side only runs when the left one does not decide the result
+        if (isTruthy(left) === (node.operator === '||')) {
+            return toMonkey(isTruthy(left))
+        }
+        return ifNotError(evaluateNode(node.right, env), (right) => toMonkey(isTruthy(right)))
+    })
+}
 
+function evalNullishExpression(node: InfixExpression, env: Environment): MObject | null {
+    const left = evaluateNode(node.left, env)
+    if (left === null || left === NULL) {
+        return evaluateNode(node.right, env)
+    }
+    return left
 }
 
 function evalBlockStatement(node: BlockStatement, env: Environment): MObject | null {
     let result = null
-    if (node.statements !== null) {
-        for (const statement of node.statements) {
-            result = evaluateNode(statement, env)
-            if (result !== null) {
-                if (result instanceof MReturnValue || result instanceof MError) {
-                    return result
-                }
+    for (const statement of node.statements) {
+        result = evaluateNode(statement, env)
+        if (result !== null) {
+            if (result instanceof MReturnValue || result instanceof MError || result instanceof MLoopSignal) {
+                return result
             }
         }
     }
     return result
 }
 
+// runs one pass of a loop body, returns the result to leave the loop with or undefined to go on
+function evalLoopBody(body: BlockStatement, env: Environment): MObject | null | undefined {
+    const result = evalBlockStatement(body, env)
+    if (result === M_BREAK) {
+        return NULL
+    }
+    if (result instanceof MReturnValue || result instanceof MError) {
+        return result
+    }
+    return undefined
+}
+
+function evalWhileStatement(node: WhileStatement, env: Environment): MObject | null {
+    while (true) {
+        const condition = evaluateNode(node.condition, env)
+        if (condition instanceof MError) {
+            return condition
+        }
+        if (condition === null || !isTruthy(condition)) {
+            return NULL
+        }
+        const result = evalLoopBody(node.body, env)
+        if (result !== undefined) {
+            return result
+        }
+    }
+}
+
+function iterate(iterable: MObject): Iterable<MObject | null> | MError {
+    return iterator(iterable) ?? new MError(`not iterable: ${typeDesc(iterable)}`, ErrorCode.NOT_ITERABLE)
+}
+
+function rangeBound(node: Expression, env: Environment): number | MError {
+    const bound = evaluateNode(node, env)
+    if (bound instanceof MError) {
+        return bound
+    }
+    if (!(bound instanceof MInteger)) {
+        return new MError(`range bounds must be MInteger, got ${typeDesc(bound)}`, ErrorCode.TYPE_MISMATCH)
+    }
+    const value = bound.getValue()
+    if (typeof value === 'bigint') {
+        return new MError(`range bounds must be between ${Number.MIN_SAFE_INTEGER} and ${Number.MAX_SAFE_INTEGER}, got ${value}`, ErrorCode.INVALID_ARGUMENT)
+    }
+    return value
+}
+
+function evalRangeExpression(node: RangeExpression, env: Environment): MObject {
+    const start = rangeBound(node.start, env)
+    if (start instanceof MError) {
+        return start
+    }
+    const end = rangeBound(node.end, env)
+    if (end instanceof MError) {
+        return end
+    }
+    const step = node.step !== null ? rangeBound(node.step, env) : 1
+    if (step instanceof MError) {
+        return step
+    }
+    if (step === 0) {
+        return new MError("range step can't be 0", ErrorCode.INVALID_ARGUMENT)
+    }
+    return new MRange(start, end, step, node.inclusive)
+}
+
+function evalForStatement(node: ForStatement, env: Environment): MObject | null {
+    return ifNotError(evaluateNode(node.iterable, env), (iterable) => {
+        const items = iterate(iterable)
+        if (items instanceof MError) {
+            return items
+        }
+        for (const item of items) {
+            // every iteration gets its own scope, so closures capture the item of their iteration
+            const iterationEnv = Environment.newEnclosedEnvironment(env)
+            iterationEnv.declare(node.variable.value, item!!)
+            const result = evalLoopBody(node.body, iterationEnv)
+            if (result !== undefined) {
+                return result
+            }
+        }
+        return NULL
+    })
+}
+
+// an assignment target with its container and key already evaluated, so compound operators evaluate them once
+interface Place {
+    read(): MObject | null
+
+    write(value: MObject): MObject
+}
+
+function evalPlace(target: Expression, env: Environment): Place | MError {
+    if (target instanceof IndexExpression) {
+        const left = evaluateNode(target.left, env)
+        if (left instanceof MError) {
+            return left
+        }
+        const index = evaluateNode(target.index, env)
+        if (index instanceof MError) {
+            return index
+        }
+        return {
+            read: () => evalIndexExpression(left, index),
+            write: (value) => evalIndexAssignment(left, index, value),
+        }
+    }
+    if (target instanceof MemberExpression) {
+        const object = evaluateNode(target.object, env)
+        if (object instanceof MError) {
+            return object
+        }
+        const name = target.property.value
+        return {
+            read: () => evalField(object, name),
+            write: (value) => evalIndexAssignment(object, new MString(name), value),
+        }
+    }
+    const name = (target as Identifier).value
+    return {
+        read: () => evaluateNode(target, env),
+        write: (value) => env.assign(name, value),
+    }
+}
+
+function evalAssignExpression(node: AssignExpression, env: Environment): MObject | null {
+    const place = evalPlace(node.target, env)
+    if (place instanceof MError) {
+        return place
+    }
+    if (node.operator === '=') {
+        return ifNotError(evaluateNode(node.value, env), (value) => place.write(value))
+    }
+    // compound operators read the current value before evaluating the right side
+    return ifNotError(place.read(), (current) => {
+        return ifNotError(evaluateNode(node.value, env), (value) => {
+            return ifNotError(evalInfixExpression(node.operator.slice(0, -1), current, value), (result) => {
+                return place.write(result)
+            })
+        })
+    })
+}
+
 function evalExpressions(args: ExpressionList, env: Environment): Array<MObject | null> {
     const evalList = []
-    for (const argument of args!!) {
-        const evaluated = evaluateNode(argument, env)
+    for (const argument of args) {
+        const evaluated = evaluateNode(argument instanceof SpreadElement ? argument.value : argument, env)
         if (isError(evaluated)) {
             return [evaluated]
         }
-        evalList.push(evaluated)
+        if (argument instanceof SpreadElement) {
+            const elements = iterate(evaluated!!)
+            if (elements instanceof MError) {
+                elements.span = argument.span
+                return [elements]
+            }
+            evalList.push(...elements)
+        } else {
+            evalList.push(evaluated)
+        }
     }
     return evalList
 }
 
-function extendFunctionEnv(fun: MFunction, args: Array<MObject | null>): Environment {
-    const env = Environment.newEnclosedEnvironment(fun.env)
-    fun.parameters?.forEach((identifier, i) => {
-        env.set(identifier.value, (args[i])!!)
+function patternMismatch(message: string): MError {
+    return new MError(message, ErrorCode.PATTERN_MISMATCH)
+}
+
+/**
+ * Matches value against pattern and collects the names it binds, or explains why the shapes differ.
+ */
+function destructure(pattern: Pattern, value: MObject, env: Environment, bindings: Array<[string, MObject]> = []): Array<[string, MObject]> | MError {
+    if (pattern instanceof ArrayPattern) {
+        if (!(value instanceof MArray)) {
+            return patternMismatch(`cannot destructure ${typeDesc(value)} with array pattern ${pattern}`)
+        }
+        const elements = value.elements
+        const expected = pattern.elements.length
+        if (pattern.rest === null ? elements.length !== expected : elements.length < expected) {
+            const want = pattern.rest === null ? `${expected}` : `at least ${expected}`
+            return patternMismatch(`array pattern ${pattern} expects ${want} elements, got ${elements.length}`)
+        }
+        for (const [i, element] of pattern.elements.entries()) {
+            const result = destructure(element, elements[i]!!, env, bindings)
+            if (result instanceof MError) {
+                return result
+            }
+        }
+        if (pattern.rest !== null) {
+            bindings.push([pattern.rest.value, new MArray(elements.slice(expected))])
+        }
+        return bindings
+    }
+    if (pattern instanceof HashPattern) {
+        if (!(value instanceof MHash)) {
+            return patternMismatch(`cannot destructure ${typeDesc(value)} with hash pattern ${pattern}`)
+        }
+        for (const [keyNode, element] of pattern.entries) {
+            const key = evaluateNode(keyNode, env)
+            if (key instanceof MError) {
+                return key
+            }
+            if (!(key instanceof MValue)) {
+                return new MError(`unusable as a hash key: ${typeDesc(key)}`, ErrorCode.UNUSABLE_HASH_KEY)
+            }
+            const pair = value.pairs.get(key.hashKey())
+            if (pair === undefined) {
+                return patternMismatch(`missing key ${key.inspect()} for hash pattern ${pattern}`)
+            }
+            const result = destructure(element, pair.value, env, bindings)
+            if (result instanceof MError) {
+                return result
+            }
+        }
+        return bindings
+    }
+    if (pattern instanceof LiteralPattern) {
+        const expected = evaluateNode(pattern.value, env)
+        if (expected instanceof MError) {
+            return expected
+        }
+        return equals(expected, value) ? bindings : patternMismatch(`expected ${pattern}, got ${print(value)}`)
+    }
+    if (pattern instanceof WildcardPattern) {
+        return bindings
+    }
+    bindings.push([pattern.value, value])
+    return bindings
+}
+
+function declarePattern(pattern: Pattern, value: MObject, env: Environment, constant = false): MObject {
+    const bindings = destructure(pattern, value, env)
+    if (bindings instanceof MError) {
+        return bindings
+    }
+    for (const [name, bound] of bindings) {
+        const declared = env.declare(name, bound, constant)
+        if (declared instanceof MError) {
+            return declared
+        }
+    }
+    return value
+}
+
+/**
+ * Tries the arms in order, each binding its pattern in a scope of its own.
+ */
+function evalMatchExpression(node: MatchExpression, env: Environment): MObject | null {
+    return ifNotError(evaluateNode(node.subject, env), (subject) => {
+        for (const arm of node.arms) {
+            const armEnv = Environment.newEnclosedEnvironment(env)
+            const bound = declarePattern(arm.pattern, subject, armEnv)
+            if (bound instanceof MError) {
+                if (bound.code === ErrorCode.PATTERN_MISMATCH) {
+                    continue
+                }
+                return bound
+            }
+            if (arm.guard !== null) {
+                const guard = evaluateNode(arm.guard, armEnv)
+                if (isError(guard)) {
+                    return guard
+                }
+                if (!isTruthy(guard!!)) {
+                    continue
+                }
+            }
+            return evaluateNode(arm.body, armEnv)
+        }
+        if (env.options.strictMatch) {
+            return new MError(`no match arm for ${print(subject)}`, ErrorCode.NO_MATCH)
+        }
+        return NULL
     })
+}
+
+function checkArity(fun: MFunction, args: Array<MObject | null>): MError | null {
+    const parameters = fun.parameters
+    const rest = parameters.at(-1)?.rest === true
+    const required = parameters.filter(parameter => parameter.defaultValue === null && !parameter.rest).length
+    const max = rest ? Infinity : parameters.length
+    if (args.length >= required && args.length <= max) {
+        return null
+    }
+    const want = rest ? `at least ${required}` : required === max ? `${max}` : `${required} to ${max}`
+    return new MError(`wrong number of arguments. got=${args.length}, want=${want}`, ErrorCode.WRONG_ARGUMENTS)
+}
+
+function extendFunctionEnv(fun: MFunction, args: Array<MObject | null>): Environment | MError {
+    const arityError = checkArity(fun, args)
+    if (arityError !== null) {
+        return arityError
+    }
+    const env = Environment.newEnclosedEnvironment(fun.env)
+    for (const [i, parameter] of fun.parameters.entries()) {
+        let value: MObject | null
+        if (parameter.rest) {
+            value = new MArray(args.slice(i))
+        } else if (i < args.length) {
+            value = args[i]
+        } else {
+            // defaults run in the new scope, so they can use the parameters before them
+            value = evaluateNode(parameter.defaultValue!!, env)
+            if (value instanceof MError) {
+                return value
+            }
+        }
+        if (parameter.pattern === null) {
+            env.set(parameter.value, value!!)
+        } else {
+            const declared = declarePattern(parameter.pattern, value!!, env)
+            if (declared instanceof MError) {
+                return declared
+            }
+        }
+    }
     return env
 }
 
 function applyFunction(fun: MObject, args: Array<MObject | null>): MObject | null {
     if (fun instanceof MFunction) {
         const extendEnv = extendFunctionEnv(fun, args)
+        if (extendEnv instanceof MError) {
+            return extendEnv
+        }
         const evaluated = evaluateNode(fun.body, extendEnv)
         if (evaluated instanceof MReturnValue) {
             return evaluated.value
@@ -225,17 +726,137 @@ function applyFunction(fun: MObject, args: Array<MObject | null>): MObject | nul
         }
         return result
     }
-    return new MError(`not a function: ${typeDesc(fun)}`)
+    return new MError(`not a function: ${typeDesc(fun)}`, ErrorCode.NOT_A_FUNCTION)
+}
+
+function evalField(object: MObject | null, name: string): MObject {
+    if (object instanceof MHash) {
+        return evalHashIndexExpression(object, new MString(name))
+    }
+    return new MError(`field access not supported: ${typeDesc(object)}`, ErrorCode.INDEX_NOT_SUPPORTED)
+}
+
+/**
+ * receiver.name(args) calls the function a hash receiver holds under name, otherwise the
+ * function or builtin called name with the receiver as its first argument.
+ */
+function evalMethodCall(node: CallExpression, member: MemberExpression, env: Environment): MObject | null {
+    return ifNotError(evaluateNode(member.object, env), (receiver) => {
+        if (member.optional && receiver === NULL) {
+            return NULL
+        }
+        const name = member.property.value
+        const field = receiver instanceof MHash ? receiver.pairs.get(new MString(name).hashKey()) : undefined
+        const method = field?.value ?? env.get(name) ?? builtins.get(name) ?? null
+        if (node.optional && (method === null || method === NULL)) {
+            return NULL
+        }
+        if (method === null) {
+            const candidates = [...env.names(), ...builtins.keys()]
+            return new MError(`unknown method ${name} for ${typeDesc(receiver)}`, ErrorCode.UNKNOWN_IDENTIFIER, suggest(name, candidates))
+        }
+        return evalCall(method, field !== undefined ? [] : [receiver], node, env)
+    })
+}
+
+// negative indices count from the end, null when the index is out of range
+function resolveIndex(index: MInteger, length: number): number | null {
+    const value = Number(index.getValue())
+    const i = value < 0 ? value + length : value
+    return i >= 0 && i < length ? i : null
+}
+
+function evalCall(fun: MObject, leading: Array<MObject>, node: CallExpression, env: Environment): MObject | null {
+    if (node.partial) {
+        return evalPartialApplication(fun, leading, node, env)
+    }
+    const args = evalExpressions(node.args, env)
+    if (args.length === 1 && isError(args[0])) {
+        return args[0]
+    }
+    return applyFunction(fun, [...leading, ...args])
+}
+
+/**
+ * The arguments given are evaluated right away, the placeholders are filled in order by the
+ * arguments of the function returned.
+ */
+function evalPartialApplication(fun: MObject, leading: Array<MObject>, node: CallExpression, env: Environment): MObject {
+    const bound: Array<MObject | null | Placeholder> = [...leading]
+    for (const arg of node.args) {
+        if (arg instanceof Placeholder) {
+            bound.push(arg)
+            continue
+        }
+        const values = evalExpressions([arg], env)
+        if (values.length === 1 && values[0] instanceof MError) {
+            return values[0]
+        }
+        bound.push(...values)
+    }
+    const missing = node.args.filter(arg => arg instanceof Placeholder).length
+    return new MBuiltinFunction((args) => {
+        if (args.length !== missing) {
+            return new MError(`wrong number of arguments. got=${args.length}, want=${missing}`, ErrorCode.WRONG_ARGUMENTS)
+        }
+        let next = 0
+        return applyFunction(fun, bound.map(value => value instanceof Placeholder ? args[next++] : value))
+    })
 }
 
 function evalArrayIndexExpression(array: MArray, index: MInteger) {
-    const elements = array.elements
-    const i = index.getValue()
-    const max = elements.length - 1
-    if (i < 0 || i > max) {
-        return NULL
+    const i = resolveIndex(index, array.elements.length)
+    return i === null ? NULL : array.elements[i]
+}
+
+function evalStringIndexExpression(str: MString, index: MInteger): MObject {
+    const value = str.getValue()
+    const i = resolveIndex(index, value.length)
+    return i === null ? NULL : new MString(value[i])
+}
+
+function sliceBound(bound: MObject | null, length: number, otherwise: number): number | MError {
+    if (bound === NULL) {
+        return otherwise
+    }
+    if (!(bound instanceof MInteger)) {
+        return new MError(`slice bounds must be MInteger, got ${typeDesc(bound)}`, ErrorCode.TYPE_MISMATCH)
     }
-    return elements[i]
+    const value = Number(bound.getValue())
+    return Math.min(Math.max(value < 0 ? value + length : value, 0), length)
+}
+
+/**
+ * Slices like Python: missing bounds default to the ends, negative ones count from the end
+ * and bounds past either end are clamped, so slicing never fails on a valid sequence.
+ */
+function evalSliceExpression(node: SliceExpression, env: Environment): MObject | null {
+    return ifNotError(evaluateNode(node.left, env), (left) => {
+        if (node.optional && left === NULL) {
+            return NULL
+        }
+        if (!(left instanceof MArray) && !(left instanceof MString)) {
+            return new MError(`slice operator not supported: ${typeDesc(left)}`, ErrorCode.INDEX_NOT_SUPPORTED)
+        }
+        const length = left instanceof MArray ? left.elements.length : left.getValue().length
+        const bounds = []
+        for (const [bound, otherwise] of [[node.start, 0], [node.end, length]] as const) {
+            const value = bound === null ? NULL : evaluateNode(bound, env)
+            if (isError(value)) {
+                return value
+            }
+            const resolved = sliceBound(value, length, otherwise)
+            if (resolved instanceof MError) {
+                return resolved
+            }
+            bounds.push(resolved)
+        }
+        const [start, end] = bounds
+        if (left instanceof MArray) {
+            return new MArray(left.elements.slice(start, end))
+        }
+        return new MString(left.getValue().slice(start, end))
+    })
 }
 
 function evalHashIndexExpression(hash: MHash, index: MObject | null): MObject {
@@ -246,10 +867,54 @@ function evalHashIndexExpression(hash: MHash, index: MObject | null): MObject {
         }
         return NULL
     }
-    return new MError(`unusable as a hash key: ${typeDesc(index)}`)
+    return new MError(`unusable as a hash key: ${typeDesc(index)}`, ErrorCode.UNUSABLE_HASH_KEY)
 }
 
-function evaluateNode(node: Node | null, env: Environment): MObject | null {
+function evalIndexExpression(left: MObject | null, index: MObject | null): MObject | null {
+    if (left instanceof MArray && index instanceof MInteger) {
+        return evalArrayIndexExpression(left, index)
+    }
+    if (left instanceof MString && index instanceof MInteger) {
+        return evalStringIndexExpression(left, index)
+    }
+    if (left instanceof MRange && index instanceof MInteger) {
+        const i = resolveIndex(index, left.length)
+        return i === null ? NULL : left.at(i)
+    }
+    if (left instanceof MHash) {
+        return evalHashIndexExpression(left, index)
+    }
+    return new MError(`index operator not supported: ${typeDesc(left)}`, ErrorCode.INDEX_NOT_SUPPORTED)
+}
+
+function evalIndexAssignment(left: MObject | null, index: MObject | null, value: MObject): MObject {
+    if (left instanceof MArray && index instanceof MInteger) {
+        const i = resolveIndex(index, left.elements.length)
+        if (i === null) {
+            return new MError(`index out of bounds: ${index.getValue()} for length ${left.elements.length}`, ErrorCode.INDEX_OUT_OF_BOUNDS)
+        }
+        left.elements[i] = value
+        return value
+    }
+    if (left instanceof MHash) {
+        if (index instanceof MValue) {
+            left.pairs.set(index.hashKey(), new HashPair(index, value))
+            return value
+        }
+        return new MError(`unusable as a hash key: ${typeDesc(index)}`, ErrorCode.UNUSABLE_HASH_KEY)
+    }
+    return new MError(`index assignment not supported: ${typeDesc(left)}`, ErrorCode.INDEX_NOT_SUPPORTED)
+}
+
+function evaluateNode(node: Node, env: Environment): MObject | null {
+    const result = evalNode(node, env)
+    if (result instanceof MError && result.span === null && node instanceof Statement) {
+        result.span = node.span
+    }
+    return result
+}
+
+function evalNode(node: Node, env: Environment): MObject | null {
     if (node instanceof Identifier) {
         const value = env.get(node.value)
         if (value === null) {
@@ -257,7 +922,8 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
             if (builtin !== undefined) {
                 return builtin
             }
-            return new MError(`identifier not found: ${node.value}`)
+            const candidates = [...env.names(), ...builtins.keys()]
+            return new MError(`identifier not found: ${node.value}`, ErrorCode.UNKNOWN_IDENTIFIER, suggest(node.value, candidates))
         }
         return value
 
@@ -265,7 +931,16 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
     if (node instanceof IntegerLiteral) {
         return new MInteger(node.value)
     }
+    if (node instanceof FloatLiteral) {
+        return new MFloat(node.value)
+    }
     if (node instanceof InfixExpression) {
+        if (node.operator === '&&' || node.operator === '||') {
+            return evalLogicalExpression(node, env)
+        }
+        if (node.operator === '??') {
+            return evalNullishExpression(node, env)
+        }
         return ifNotError(evaluateNode(node.left, env), (left) => {
             return ifNotError(evaluateNode(node.right, env), (right) => {
                 return evalInfixExpression(node.operator, left, right)
@@ -279,17 +954,6 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
         return evaluateNode(node.expression, env)
     }
     if (node instanceof IfExpression) {
-        function isTruthy(condition: MObject): boolean {
-            if (condition === NULL) {
-                return false
-            }
-            if (condition === TRUE) {
-                return true
-            }
-            return condition !== FALSE;
-
-        }
-
         return ifNotError(evaluateNode(node.condition, env), (condition) => {
             if (isTruthy(condition)) {
                 return evaluateNode(node.consequence, env)
@@ -301,14 +965,22 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
         })
     }
     if (node instanceof CallExpression) {
+        if (node.fun instanceof MemberExpression) {
+            return evalMethodCall(node, node.fun, env)
+        }
         return ifNotError(evaluateNode(node.fun, env), (fun) => {
-            const args = evalExpressions(node.args, env)
-            if (args.length === 1 && isError(args[0])) {
-                return args[0]
+            if (node.optional && fun === NULL) {
+                return NULL
             }
-            return applyFunction(fun, args)
+            return evalCall(fun, [], node, env)
         })
     }
+    if (node instanceof RangeExpression) {
+        return evalRangeExpression(node, env)
+    }
+    if (node instanceof PipeExpression) {
+        return evaluateNode(node.call, env)
+    }
     if (node instanceof ReturnStatement) {
         return ifNotError(evaluateNode(node.returnValue, env), (value) => {
             return new MReturnValue(value)
@@ -322,16 +994,24 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
                 case '-' :
                     return evalMinusPrefixOperatorExpression(right)
                 default:
-                    return new MError(`Unknown operator: ${node.operator}${typeDesc(right)}`)
+                    return new MError(`Unknown operator: ${node.operator}${typeDesc(right)}`, ErrorCode.UNKNOWN_OPERATOR)
             }
         })
     }
     if (node instanceof BooleanLiteral) {
         return toMonkey(node.value)
     }
+    if (node instanceof NullLiteral) {
+        return NULL
+    }
     if (node instanceof LetStatement) {
         return ifNotError(evaluateNode(node.value, env), (value) => {
-            return env.put(node.name.value, value)
+            return env.declare(node.name.value, value, node.constant)
+        })
+    }
+    if (node instanceof DestructuringLetStatement) {
+        return ifNotError(evaluateNode(node.value, env), (value) => {
+            return declarePattern(node.pattern, value, env, node.constant)
         })
     }
     if (node instanceof FunctionLiteral) {
@@ -340,28 +1020,46 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
     if (node instanceof StringLiteral) {
         return new MString(node.value)
     }
+    if (node instanceof InterpolatedString) {
+        let result = ''
+        for (const part of node.parts) {
+            const value = evaluateNode(part, env)
+            if (isError(value)) {
+                return value
+            }
+            result += display(value)
+        }
+        return new MString(result)
+    }
     if (node instanceof IndexExpression) {
         const left = evaluateNode(node.left, env)
         if (isError(left)) {
             return left
         }
+        if (node.optional && (left === null || left === NULL)) {
+            return NULL
+        }
 
         const index = evaluateNode(node.index, env)
         if (isError(index)) {
             return index
         }
-
-        if (left instanceof MArray && index instanceof MInteger) {
-            return evalArrayIndexExpression(left, index)
-        }
-        if (left instanceof MHash) {
-            return evalHashIndexExpression(left, index)
-        }
-        return new MError(`index operator not supported: ${typeDesc(left)}`)
+        return evalIndexExpression(left, index)
     }
     if (node instanceof HashLiteral) {
         const pairs = new Map<string, HashPair>()
         for (const [keyNode, valueNode] of node.pairs) {
+            if (keyNode instanceof SpreadElement) {
+                const spread = evaluateNode(valueNode, env)
+                if (isError(spread)) {
+                    return spread
+                }
+                if (!(spread instanceof MHash)) {
+                    return new MError(`cannot spread ${typeDesc(spread)} into a hash`, ErrorCode.TYPE_MISMATCH)
+                }
+                spread.pairs.forEach((pair, hashKey) => pairs.set(hashKey.toString(), pair))
+                continue
+            }
             const key = evaluateNode(keyNode, env)
             if (isError(key)) {
                 return key
@@ -373,7 +1071,7 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
                 }
                 pairs.set(key.hashKey(), new HashPair(key, value!!))
             } else {
-                return new MError(`unusable as hash key: ${typeDesc(key)}`)
+                return new MError(`unusable as hash key: ${typeDesc(key)}`, ErrorCode.UNUSABLE_HASH_KEY)
             }
         }
         return new MHash(pairs)
@@ -385,5 +1083,34 @@ function evaluateNode(node: Node | null, env: Environment): MObject | null {
         }
         return new MArray(elements)
     }
-    throw new Error(`${node?.toString()} => ${node?.constructor.name}`)
+    if (node instanceof AssignExpression) {
+        return evalAssignExpression(node, env)
+    }
+    if (node instanceof SliceExpression) {
+        return evalSliceExpression(node, env)
+    }
+    if (node instanceof MemberExpression) {
+        return ifNotError(evaluateNode(node.object, env), (object) => {
+            return node.optional && object === NULL ? NULL : evalField(object, node.property.value)
+        })
+    }
+    if (node instanceof MatchExpression) {
+        return evalMatchExpression(node, env)
+    }
+    if (node instanceof WhileStatement) {
+        return evalWhileStatement(node, env)
+    }
+    if (node instanceof ForStatement) {
+        return evalForStatement(node, env)
+    }
+    if (node instanceof BreakStatement) {
+        return M_BREAK
+    }
+    if (node instanceof ContinueStatement) {
+        return M_CONTINUE
+    }
+    if (node instanceof ErrorNode) {
+        return new MError(`syntax error: ${node.diagnostic.message}`, ErrorCode.SYNTAX_ERROR)
+    }
+    throw new Error(`${node.toString()} => ${node.constructor.name}`)
 }
\ No newline at end of file
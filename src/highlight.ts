@@ -0,0 +1,56 @@
+import {Lexer} from './lexer';
+import {isKeyword, Token, TokenType} from './token';
+
+const RESET = '\x1b[0m'
+const RED = '\x1b[31m'
+const GREEN = '\x1b[32m'
+const YELLOW = '\x1b[33m'
+const MAGENTA = '\x1b[35m'
+const CYAN = '\x1b[36m'
+const GRAY = '\x1b[90m'
+
+const PLAIN = [
+    TokenType.IDENT, TokenType.DOT, TokenType.COMMA, TokenType.SEMICOLON, TokenType.COLON,
+    TokenType.LPAREN, TokenType.RPAREN, TokenType.LBRACE, TokenType.RBRACE, TokenType.LBRACKET, TokenType.RBRACKET,
+]
+
+function style(token: Token, text: string): string | null {
+    switch (token.tokenType) {
+        case TokenType.TRUE:
+        case TokenType.FALSE:
+        case TokenType.NULL:
+        case TokenType.INT:
+        case TokenType.FLOAT:
+            return YELLOW
+        case TokenType.STRING:
+        case TokenType.TEMPLATE:
+            return GREEN
+        case TokenType.COMMENT:
+            return GRAY
+        case TokenType.ILLEGAL:
+            // a string still being typed is not an error yet
+            return text.startsWith('"') || text.startsWith('`') ? GREEN : RED
+    }
+    if (isKeyword(token.tokenType)) {
+        return MAGENTA
+    }
+    return PLAIN.includes(token.tokenType) ? null : CYAN
+}
+
+/**
+ * Colors source with ANSI escapes following its tokens, the text itself is left untouched.
+ */
+export function highlight(source: string): string {
+    const lexer = new Lexer(source, {comments: true})
+    let result = ''
+    let offset = 0
+    for (let token = lexer.nextToken(); token.tokenType !== TokenType.EOF; token = lexer.nextToken()) {
+        const start = token.span.start.offset
+        const end = token.span.end.offset
+        const text = source.substring(start, end)
+        const color = style(token, text)
+        result += source.substring(offset, start) + (color === null ? text : `${color}${text}${RESET}`)
+        offset = end
+    }
+    return result + source.substring(offset)
+}
@@ -1,36 +1,73 @@
-import {lookupIdent, Token, TokenType} from './token';
+import {lookupIdent, Position, Span, TemplatePart, TemplateToken, Token, TokenType} from './token';
+import {Diagnostic, ErrorCode} from './diagnostics';
 
 const ZERO = '';
 const WHITE_SPACES = [' ', '\t', '\n', '\r']
 const DIGIT_EXPRESSION = /^\d$/;
+const HEX_EXPRESSION = /^[0-9a-fA-F]$/;
+const RADIX_DIGITS = new Map([['x', HEX_EXPRESSION], ['b', /^[01]$/], ['o', /^[0-7]$/]])
+const ESCAPES = new Map([['n', '\n'], ['t', '\t'], ['r', '\r'], ['0', '\0'], ['"', '"'], ['\\', '\\'], ['$', '$']])
 
 function isDigit(ch: string): boolean {
     return DIGIT_EXPRESSION.test(ch);
 }
 
+export interface LexerOptions {
+    // emit COMMENT tokens instead of skipping comments
+    comments?: boolean
+    // where the input starts when it is a fragment of a larger source, e.g. an interpolated expression
+    start?: Position
+}
+
 export class Lexer {
 
-    constructor(private readonly input: string) {
+    constructor(private readonly input: string, private readonly options: LexerOptions = {}) {
         this.input = input
+        const start = options.start ?? Position.START
+        this.line = start.line
+        this.column = start.column - 1
+        this.offset = start.offset
         this.readChar();
     }
 
     private position = 0;
     private readPosition = 0;
     private ch = ZERO;
+    private line = 1;
+    private column = 0;
+    private offset = 0;
+    private tokenStart = Position.START;
+    private readonly _diagnostics = new Array<Diagnostic>();
+
+    diagnostics(): Diagnostic[] {
+        return this._diagnostics
+    }
+
+    private error(code: ErrorCode, message: string, start: Position) {
+        this._diagnostics.push(Diagnostic.error(code, message, new Span(start, this.currentPosition())))
+    }
 
 
     private readChar() {
+        if (this.ch == '\n') {
+            this.line++;
+            this.column = 0;
+        }
         this.ch = this.peakChar();
         this.position = this.readPosition;
         this.readPosition++;
+        this.column++;
     }
 
-    private peakChar(): string {
-        if (this.readPosition >= this.input.length) {
+    private currentPosition(): Position {
+        return new Position(this.line, this.column, this.offset + this.position)
+    }
+
+    private peakChar(distance = 0): string {
+        if (this.readPosition + distance >= this.input.length) {
             return ZERO
         }
-        return this.input[this.readPosition]
+        return this.input[this.readPosition + distance]
     }
 
     private token(tokenType: TokenType): Token {
@@ -50,9 +87,21 @@ export class Lexer {
 
     nextToken(): Token {
         this.skipWhitespace();
+        this.tokenStart = this.currentPosition();
+        const token = this.readToken();
+        token.span = new Span(this.tokenStart, this.currentPosition());
+        return token
+    }
+
+    private readToken(): Token {
         let token: Token | null = null;
         switch (this.ch) {
             case '=':
+                if (this.peakChar() == '>') {
+                    this.readChar();
+                    token = new Token(TokenType.ARROW, '=>');
+                    break;
+                }
                 token = this.endsWithEqual(TokenType.ASSIGN, TokenType.EQ)
                 break;
             case '!':
@@ -86,50 +135,157 @@ export class Lexer {
                 token = this.token(TokenType.RBRACKET);
                 break;
             case '+' :
-                token = this.token(TokenType.PLUS);
+                token = this.endsWithEqual(TokenType.PLUS, TokenType.PLUS_ASSIGN, false);
                 break;
             case '-' :
-                token = this.token(TokenType.MINUS);
+                token = this.endsWithEqual(TokenType.MINUS, TokenType.MINUS_ASSIGN, false);
                 break;
             case '*' :
-                token = this.token(TokenType.ASTERISK);
+                token = this.endsWithEqual(TokenType.ASTERISK, TokenType.ASTERISK_ASSIGN, false);
+                break;
+            case '%' :
+                token = this.endsWithEqual(TokenType.PERCENT, TokenType.PERCENT_ASSIGN, false);
                 break;
             case '/' :
-                token = this.token(TokenType.SLASH);
+                if (this.options.comments && this.atCommentStart()) {
+                    return new Token(TokenType.COMMENT, this.readComment())
+                }
+                token = this.endsWithEqual(TokenType.SLASH, TokenType.SLASH_ASSIGN, false);
                 break;
             case '<' :
-                token = this.token(TokenType.LT);
+                token = this.endsWithEqual(TokenType.LT, TokenType.LT_EQ, false);
                 break;
             case '>' :
-                token = this.token(TokenType.GT);
+                token = this.endsWithEqual(TokenType.GT, TokenType.GT_EQ, false);
                 break;
-            case '"':
-                token = new Token(TokenType.STRING, this.readString());
+            case '.' :
+                if (this.peakChar() == '.' && this.peakChar(1) == '.') {
+                    this.readChar();
+                    this.readChar();
+                    token = new Token(TokenType.ELLIPSIS, '...');
+                    break;
+                }
+                if (this.peakChar() == '.' && this.peakChar(1) == '=') {
+                    this.readChar();
+                    this.readChar();
+                    token = new Token(TokenType.RANGE_INCLUSIVE, '..=');
+                    break;
+                }
+                if (this.peakChar() == '.') {
+                    token = this.doubled(TokenType.RANGE);
+                    break;
+                }
+                token = this.token(TokenType.DOT);
                 break;
-            case ZERO:
-                token = new Token(TokenType.EOF, '');
+            case '?' :
+                if (this.peakChar() == '?') {
+                    token = this.doubled(TokenType.NULLISH);
+                    break;
+                }
+                if (this.peakChar() == '.') {
+                    this.readChar();
+                    token = new Token(TokenType.OPTIONAL, '?.');
+                    break;
+                }
+                return this.illegal();
+            case '&' :
+                if (this.peakChar() == '&') {
+                    token = this.doubled(TokenType.AND);
+                    break;
+                }
+                return this.illegal();
+            case '|' :
+                if (this.peakChar() == '|') {
+                    token = this.doubled(TokenType.OR);
+                    break;
+                }
+                if (this.peakChar() == '>') {
+                    this.readChar();
+                    token = new Token(TokenType.PIPE, '|>');
+                    break;
+                }
+                token = this.token(TokenType.BAR);
                 break;
+            case '"':
+                return this.readString();
+            case '`':
+                return this.readRawString();
+            case ZERO:
+                return new Token(TokenType.EOF, '');
             default:
                 if (this.isIdentifier(this.ch)) {
                     const identifier = this.readIdentifier();
                     return new Token(lookupIdent(identifier), identifier)
                 }
                 if (isDigit(this.ch)) {
-                    return new Token(TokenType.INT, this.readNumber())
+                    return this.readNumber()
                 }
-                return new Token(TokenType.ILLEGAL, this.ch)
+                return this.illegal()
         }
         this.readChar();
         return token
     }
 
+    private doubled(tokenType: TokenType): Token {
+        this.readChar();
+        return new Token(tokenType, `${this.ch}${this.ch}`)
+    }
+
+    private illegal(): Token {
+        const token = this.token(TokenType.ILLEGAL)
+        this.readChar()
+        this.error(ErrorCode.ILLEGAL_CHARACTER, `illegal character '${token.literal}'`, this.tokenStart)
+        return token
+    }
+
 
     private skipWhitespace() {
-        while (WHITE_SPACES.includes(this.ch)) {
-            this.readChar()
+        while (true) {
+            while (WHITE_SPACES.includes(this.ch)) {
+                this.readChar()
+            }
+            if (this.options.comments || !this.atCommentStart()) {
+                return
+            }
+            this.readComment()
         }
     }
 
+    private atCommentStart(): boolean {
+        return this.ch == '/' && (this.peakChar() == '/' || this.peakChar() == '*')
+    }
+
+    private readComment(): string {
+        const start = this.position
+        if (this.peakChar() == '/') {
+            while (this.ch != '\n' && this.ch != ZERO) {
+                this.readChar()
+            }
+        } else {
+            this.skipBlockComment()
+        }
+        return this.input.substring(start, this.position)
+    }
+
+    private skipBlockComment() {
+        const start = this.currentPosition()
+        let depth = 0
+        do {
+            if (this.ch == ZERO) {
+                this.error(ErrorCode.UNTERMINATED_COMMENT, 'unterminated block comment', start)
+                return
+            }
+            if (this.ch == '/' && this.peakChar() == '*') {
+                depth++
+                this.readChar()
+            } else if (this.ch == '*' && this.peakChar() == '/') {
+                depth--
+                this.readChar()
+            }
+            this.readChar()
+        } while (depth > 0)
+    }
+
     private isIdentifier(value: string): boolean {
         return (value.toLowerCase() != value.toUpperCase()) || value == '_'
     }
@@ -146,18 +302,175 @@ export class Lexer {
         return this.input.substring(currentPosition, this.position)
     }
 
-    private readNumber() {
-        return this.readValue(ch => isDigit(ch));
+    private readNumber(): Token {
+        const start = this.position
+        const radixDigits = this.ch == '0' ? RADIX_DIGITS.get(this.peakChar().toLowerCase()) : undefined
+        if (radixDigits !== undefined) {
+            this.readChar()
+            this.readChar()
+            this.readValue(ch => radixDigits.test(ch) || ch == '_')
+            return new Token(TokenType.INT, this.input.substring(start, this.position))
+        }
+        let tokenType = TokenType.INT
+        this.readDigits()
+        if (this.ch == '.' && isDigit(this.peakChar())) {
+            tokenType = TokenType.FLOAT
+            this.readChar()
+            this.readDigits()
+        }
+        if (this.ch == 'e' || this.ch == 'E') {
+            const sign = this.peakChar() == '+' || this.peakChar() == '-'
+            if (isDigit(this.peakChar(sign ? 1 : 0))) {
+                tokenType = TokenType.FLOAT
+                this.readChar()
+                if (sign) {
+                    this.readChar()
+                }
+                this.readDigits()
+            }
+        }
+        return new Token(tokenType, this.input.substring(start, this.position))
     }
 
-    private readString(): string {
-        const start = this.position + 1;
-        while (true) {
-            this.readChar();
-            if (this.ch == '"' || this.ch == ZERO) {
-                break;
+    private readDigits() {
+        this.readValue(ch => isDigit(ch) || ch == '_')
+    }
+
+    private readString(): Token {
+        const parts = new Array<string | TemplatePart>()
+        let text = ''
+        this.readChar()
+        while (this.ch != '"') {
+            if (this.ch == ZERO) {
+                return this.unterminatedString()
+            }
+            if (this.ch == '\\') {
+                text += this.readEscape()
+            } else if (this.ch == '$' && this.peakChar() == '{') {
+                const part = this.readInterpolation()
+                if (part === null) {
+                    return this.unterminatedString()
+                }
+                parts.push(text, part)
+                text = ''
+            } else {
+                text += this.ch
+                this.readChar()
             }
         }
-        return this.input.substring(start, this.position)
+        this.readChar()
+        if (parts.length == 0) {
+            return new Token(TokenType.STRING, text)
+        }
+        parts.push(text)
+        const literal = this.input.substring(this.tokenStart.offset - this.offset + 1, this.position - 1)
+        return new TemplateToken(literal, parts.filter(part => part !== ''))
+    }
+
+    private readRawString(): Token {
+        const start = this.position + 1
+        do {
+            this.readChar()
+            if (this.ch == ZERO) {
+                return this.unterminatedString()
+            }
+        } while (this.ch != '`')
+        this.readChar()
+        return new Token(TokenType.STRING, this.input.substring(start, this.position - 1))
+    }
+
+    private unterminatedString(): Token {
+        this.error(ErrorCode.UNTERMINATED_STRING, 'unterminated string', this.tokenStart)
+        return new Token(TokenType.ILLEGAL, this.input.substring(this.tokenStart.offset - this.offset))
+    }
+
+    private readEscape(): string {
+        const start = this.currentPosition()
+        this.readChar()
+        const escape = this.ch
+        if (escape == ZERO) {
+            return ''
+        }
+        this.readChar()
+        const simple = ESCAPES.get(escape)
+        if (simple !== undefined) {
+            return simple
+        }
+        if (escape == 'u' && this.ch == '{') {
+            return this.readUnicodeEscape(start)
+        }
+        this.error(ErrorCode.INVALID_ESCAPE, `invalid escape sequence \\${escape}`, start)
+        return escape
+    }
+
+    private readUnicodeEscape(start: Position): string {
+        this.readChar()
+        const digits = this.readValue(ch => HEX_EXPRESSION.test(ch))
+        const codePoint = parseInt(digits, 16)
+        if (this.ch == '}' && digits.length > 0 && codePoint <= 0x10FFFF) {
+            this.readChar()
+            return String.fromCodePoint(codePoint)
+        }
+        this.error(ErrorCode.INVALID_ESCAPE, `invalid unicode escape \\u{${digits}`, start)
+        return ''
+    }
+
+    /**
+     * Reads `${ ... }` up to its matching brace, skipping over nested strings and braces.
+     * The expression source is kept as is, so the parser can lex and parse it on its own.
+     */
+    private readInterpolation(): TemplatePart | null {
+        this.readChar()
+        this.readChar()
+        const start = this.currentPosition()
+        if (!this.skipBraces()) {
+            return null
+        }
+        return new TemplatePart(this.input.substring(start.offset - this.offset, this.position - 1), start)
+    }
+
+    private skipBraces(): boolean {
+        let depth = 1
+        while (depth > 0) {
+            switch (this.ch) {
+                case ZERO:
+                    return false
+                case '"':
+                    if (!this.skipNestedString()) {
+                        return false
+                    }
+                    continue
+                case '{':
+                    depth++
+                    break
+                case '}':
+                    depth--
+                    break
+            }
+            this.readChar()
+        }
+        return true
+    }
+
+    private skipNestedString(): boolean {
+        this.readChar()
+        while (this.ch != '"') {
+            if (this.ch == ZERO) {
+                return false
+            }
+            if (this.ch == '\\') {
+                this.readChar()
+            } else if (this.ch == '$' && this.peakChar() == '{') {
+                this.readChar()
+                this.readChar()
+                if (!this.skipBraces()) {
+                    return false
+                }
+                continue
+            }
+            this.readChar()
+        }
+        this.readChar()
+        return true
     }
-}
\ No newline at end of file
+}
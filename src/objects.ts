@@ -1,5 +1,9 @@
-import {BlockStatement, Identifier} from './ast';
+import {BlockStatement, Parameter} from './ast';
 import {Environment} from './evaluator';
+import {Diagnostic, ErrorCode} from './diagnostics';
+import {Span} from './token';
+import {display, print, quote} from './printer';
+import {outputSink} from './output';
 
 export interface MObject {
     inspect(): string
@@ -13,7 +17,7 @@ export function typeDesc(mObject: MObject | null): string {
     }
 }
 
-type Value = string | number | boolean
+type Value = string | number | bigint | boolean
 
 export abstract class MValue<T> implements MObject {
     protected constructor(protected readonly value: Value) {
@@ -32,13 +36,48 @@ export abstract class MValue<T> implements MObject {
 
 }
 
-export class MInteger extends MValue<number> {
+const MIN_SAFE = BigInt(Number.MIN_SAFE_INTEGER)
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER)
+
+/**
+ * Integers are plain numbers while they fit in the safe range and bigint beyond it,
+ * so equal values always share the same representation.
+ */
+export class MInteger extends MValue<number | bigint> {
+    constructor(value: number | bigint) {
+        super(typeof value === 'bigint' && value >= MIN_SAFE && value <= MAX_SAFE ? Number(value) : value);
+    }
+
+    toString(): string {
+        return `MInteger(value=${this.value})`
+    }
+
+    getValue(): number | bigint {
+        return this.value as number | bigint;
+    }
+}
+
+export class MFloat extends MValue<number> {
     constructor(value: number) {
         super(value);
     }
 
+    inspect(): string {
+        const value = this.getValue()
+        return Number.isInteger(value) ? value.toFixed(1) : value.toString()
+    }
+
+    // integral floats share the key of the equal integer, so hash lookups agree with ==
+    hashKey(): string {
+        const value = this.getValue()
+        if (Number.isInteger(value)) {
+            return new MInteger(Number.isSafeInteger(value) ? value : BigInt(value)).hashKey()
+        }
+        return super.hashKey()
+    }
+
     toString(): string {
-        return `MInteger(value=${this.value})`
+        return `MFloat(value=${this.value})`
     }
 
     getValue(): number {
@@ -65,6 +104,10 @@ export class MString extends MValue<string> {
         super(value);
     }
 
+    inspect(): string {
+        return quote(this.getValue())
+    }
+
     toString(): string {
         return `MString(value=${this.value})`
     }
@@ -83,14 +126,33 @@ export class MReturnValue implements MObject {
     }
 }
 
+// unwinds the blocks of a loop body up to the loop running it
+export class MLoopSignal implements MObject {
+    constructor(public readonly keyword: string) {
+    }
+
+    inspect(): string {
+        return this.keyword;
+    }
+}
+
+export const M_BREAK = new MLoopSignal('break')
+export const M_CONTINUE = new MLoopSignal('continue')
+
 export class MError implements MObject {
-    constructor(public readonly message: string) {
+    span: Span | null = null
+
+    constructor(public readonly message: string, public readonly code: ErrorCode, public readonly suggestions: string[] = []) {
     }
 
     inspect(): string {
         return `ERROR: ${this.message}`;
     }
 
+    diagnostic(): Diagnostic {
+        return Diagnostic.error(this.code, this.message, this.span, [], this.suggestions)
+    }
+
     toString(): string {
         return `MError(message=${this.message})`
     }
@@ -108,11 +170,11 @@ export const M_NULL = new MNull()
 
 export class MFunction implements MObject {
 
-    constructor(public readonly parameters: Array<Identifier> | null, public readonly body: BlockStatement | null, public readonly env: Environment) {
+    constructor(public readonly parameters: Array<Parameter>, public readonly body: BlockStatement, public readonly env: Environment) {
     }
 
     inspect(): string {
-        return `fn(${this.parameters?.join(', ')}) {\n\t${this.body}\n}`;
+        return `fn(${this.parameters.join(', ')}) {\n\t${this.body}\n}`;
     }
 
 }
@@ -122,7 +184,44 @@ export class MArray implements MObject {
     }
 
     inspect(): string {
-        return `[${this.elements.join(', ')}]`;
+        return print(this);
+    }
+}
+
+/**
+ * Integer ranges are lazy, their length and elements are computed instead of stored.
+ */
+export class MRange implements MObject {
+    readonly length: number
+
+    constructor(public readonly start: number, public readonly end: number, public readonly step: number, public readonly inclusive: boolean) {
+        const stop = inclusive ? end + Math.sign(step) : end
+        this.length = Math.max(0, Math.ceil((stop - start) / step))
+    }
+
+    at(i: number): MInteger {
+        return new MInteger(this.start + i * this.step)
+    }
+
+    * values(): IterableIterator<MObject> {
+        for (let i = 0; i < this.length; i++) {
+            yield this.at(i)
+        }
+    }
+
+    inspect(): string {
+        const step = this.step !== 1 ? ` step ${this.step}` : ''
+        return `${this.start}${this.inclusive ? '..=' : '..'}${this.end}${step}`
+    }
+}
+
+// a lazy sequence that can be walked once, take, drop, zip and enumerate return these
+export class MIterator implements MObject {
+    constructor(public readonly source: IterableIterator<MObject | null>) {
+    }
+
+    inspect(): string {
+        return '<iterator>'
     }
 }
 
@@ -136,14 +235,164 @@ export class MHash implements MObject {
     }
 
     inspect(): string {
-        const values = []
-        for (const value of this.pairs.values()) {
-            values.push(`${value.key.inspect()}: ${value.value.inspect()}`)
+        return print(this);
+    }
+
+}
+
+function isNumeric(obj: MObject | null): obj is MInteger | MFloat {
+    return obj instanceof MInteger || obj instanceof MFloat
+}
+
+/**
+ * Structural equality: numbers by value, strings by content, arrays and hashes element by element.
+ * Pairs already being compared count as equal, so arrays that contain themselves still terminate.
+ */
+export function equals(left: MObject | null, right: MObject | null, comparing: Array<[MObject, MObject]> = []): boolean {
+    if (left === right) {
+        return true
+    }
+    if (left === null || right === null) {
+        return false
+    }
+    if (left instanceof MInteger && right instanceof MInteger) {
+        return left.getValue() === right.getValue()
+    }
+    if (isNumeric(left) && isNumeric(right)) {
+        return Number(left.getValue()) === Number(right.getValue())
+    }
+    if (left instanceof MString && right instanceof MString) {
+        return left.getValue() === right.getValue()
+    }
+    if (left instanceof MRange && right instanceof MRange) {
+        // ranges are equal when they produce the same elements
+        return left.length === right.length &&
+            (left.length === 0 || left.start === right.start) &&
+            (left.length < 2 || left.step === right.step)
+    }
+    if (!(left instanceof MArray && right instanceof MArray) && !(left instanceof MHash && right instanceof MHash)) {
+        return false
+    }
+    if (comparing.some(([l, r]) => l === left && r === right)) {
+        return true
+    }
+    comparing.push([left, right])
+    try {
+        if (left instanceof MArray && right instanceof MArray) {
+            return left.elements.length === right.elements.length &&
+                left.elements.every((element, i) => equals(element, right.elements[i], comparing))
+        }
+        const leftPairs = (left as MHash).pairs
+        const rightPairs = (right as MHash).pairs
+        if (leftPairs.size !== rightPairs.size) {
+            return false
+        }
+        for (const [key, pair] of leftPairs) {
+            const other = rightPairs.get(key)
+            if (other === undefined || !equals(pair.value, other.value, comparing)) {
+                return false
+            }
+        }
+        return true
+    } finally {
+        comparing.pop()
+    }
+}
+
+/**
+ * Orders numbers by value, strings lexicographically and arrays element-wise, a shorter prefix first.
+ * Returns null when the values can't be ordered.
+ */
+export function compare(left: MObject | null, right: MObject | null): number | null {
+    if (left instanceof MInteger && right instanceof MInteger) {
+        const l = left.getValue()
+        const r = right.getValue()
+        return l < r ? -1 : l > r ? 1 : 0
+    }
+    if (isNumeric(left) && isNumeric(right)) {
+        const l = Number(left.getValue())
+        const r = Number(right.getValue())
+        return l < r ? -1 : l > r ? 1 : l === r ? 0 : null
+    }
+    if (left instanceof MString && right instanceof MString) {
+        const l = left.getValue()
+        const r = right.getValue()
+        return l < r ? -1 : l > r ? 1 : 0
+    }
+    if (left instanceof MArray && right instanceof MArray) {
+        if (left === right) {
+            return 0
+        }
+        const length = Math.min(left.elements.length, right.elements.length)
+        for (let i = 0; i < length; i++) {
+            const result = compare(left.elements[i], right.elements[i])
+            if (result !== 0) {
+                return result
+            }
+        }
+        return left.elements.length - right.elements.length
+    }
+    return null
+}
+
+/**
+ * Walks arrays, strings by character, hash keys, ranges and iterators, null for anything else.
+ * Arrays are walked over a snapshot, so growing one while walking it can't make the walk endless.
+ */
+export function iterator(obj: MObject | null): IterableIterator<MObject | null> | null {
+    if (obj instanceof MArray) {
+        return [...obj.elements].values()
+    }
+    if (obj instanceof MString) {
+        return obj.getValue().split('').map(ch => new MString(ch)).values()
+    }
+    if (obj instanceof MHash) {
+        return [...obj.pairs.values()].map(pair => pair.key).values()
+    }
+    if (obj instanceof MRange) {
+        return obj.values()
+    }
+    if (obj instanceof MIterator) {
+        return obj.source
+    }
+    return null
+}
+
+function* taking(source: IterableIterator<MObject | null>, n: number): IterableIterator<MObject | null> {
+    for (let i = 0; i < n; i++) {
+        const next = source.next()
+        if (next.done) {
+            return
         }
+        yield next.value
+    }
+}
 
-        return `{${values.join(', ')}}`
+function* dropping(source: IterableIterator<MObject | null>, n: number): IterableIterator<MObject | null> {
+    for (let i = 0; i < n; i++) {
+        if (source.next().done) {
+            return
+        }
     }
+    yield* source
+}
 
+function* zipping(left: IterableIterator<MObject | null>, right: IterableIterator<MObject | null>): IterableIterator<MObject> {
+    while (true) {
+        const l = left.next()
+        const r = right.next()
+        if (l.done || r.done) {
+            return
+        }
+        yield new MArray([l.value, r.value])
+    }
+}
+
+function* enumerating(source: IterableIterator<MObject | null>): IterableIterator<MObject> {
+    let i = 0
+    for (const value of source) {
+        yield new MArray([new MInteger(i++), value])
+    }
 }
 
 type BuiltinFunction = (args: Array<MObject | null>) => MObject | null
@@ -162,7 +411,7 @@ export class MBuiltinFunction implements MObject {
 function argSizeCheck(expectedSize: number, args: Array<MObject | null>, body: BuiltinFunction): MObject | null {
     const length = args.length
     if (length !== expectedSize) {
-        return new MError(`wrong number of arguments. got=${length}, want=${expectedSize}`)
+        return new MError(`wrong number of arguments. got=${length}, want=${expectedSize}`, ErrorCode.WRONG_ARGUMENTS)
     }
     return body(args)
 }
@@ -172,7 +421,23 @@ function arrayCheck(builtinName: string, args: Array<MObject | null>, body: (arr
     if (first instanceof MArray) {
         return body(first, first.elements.length)
     }
-    return new MError(`argument to '${builtinName}' must be ARRAY, got ${typeDesc(first)}`)
+    return new MError(`argument to '${builtinName}' must be ARRAY, got ${typeDesc(first)}`, ErrorCode.INVALID_ARGUMENT)
+}
+
+function iterableCheck(builtinName: string, arg: MObject | null, body: (source: IterableIterator<MObject | null>) => MObject | null): MObject | null {
+    const source = iterator(arg)
+    if (source !== null) {
+        return body(source)
+    }
+    return new MError(`argument to '${builtinName}' must be iterable, got ${typeDesc(arg)}`, ErrorCode.INVALID_ARGUMENT)
+}
+
+function countCheck(builtinName: string, args: Array<MObject | null>, body: (source: IterableIterator<MObject | null>, n: number) => MObject | null): MObject | null {
+    const n = args[1]
+    if (!(n instanceof MInteger)) {
+        return new MError(`second argument to '${builtinName}' must be INTEGER, got ${typeDesc(n)}`, ErrorCode.INVALID_ARGUMENT)
+    }
+    return iterableCheck(builtinName, args[0], (source) => body(source, Number(n.getValue())))
 }
 
 const PUSH = 'push'
@@ -189,7 +454,10 @@ export const builtins = new Map<string, MBuiltinFunction>([
                 if (arg instanceof MArray) {
                     return new MInteger(arg.elements.length)
                 }
-                return new MError(`argument to 'len' not supported, got ${typeDesc(arg)}`)
+                if (arg instanceof MRange) {
+                    return new MInteger(arg.length)
+                }
+                return new MError(`argument to 'len' not supported, got ${typeDesc(arg)}`, ErrorCode.INVALID_ARGUMENT)
             })
         })],
         [PUSH, new MBuiltinFunction((args) => {
@@ -232,6 +500,45 @@ export const builtins = new Map<string, MBuiltinFunction>([
                     return M_NULL
                 })
             })
+        })],
+        ['puts', new MBuiltinFunction((args) => {
+            args.forEach(arg => outputSink().write(`${display(arg)}\n`))
+            return M_NULL
+        })],
+        ['print', new MBuiltinFunction((args) => {
+            outputSink().write(args.map(display).join(' '))
+            return M_NULL
+        })],
+        ['eprint', new MBuiltinFunction((args) => {
+            outputSink().writeError(args.map(display).join(' '))
+            return M_NULL
+        })],
+        ['take', new MBuiltinFunction((args) => {
+            return argSizeCheck(2, args, (it) => {
+                return countCheck('take', it, (source, n) => new MIterator(taking(source, n)))
+            })
+        })],
+        ['drop', new MBuiltinFunction((args) => {
+            return argSizeCheck(2, args, (it) => {
+                return countCheck('drop', it, (source, n) => new MIterator(dropping(source, n)))
+            })
+        })],
+        ['zip', new MBuiltinFunction((args) => {
+            return argSizeCheck(2, args, (it) => {
+                return iterableCheck('zip', it[0], (left) => {
+                    return iterableCheck('zip', it[1], (right) => new MIterator(zipping(left, right)))
+                })
+            })
+        })],
+        ['enumerate', new MBuiltinFunction((args) => {
+            return argSizeCheck(1, args, (it) => {
+                return iterableCheck('enumerate', it[0], (source) => new MIterator(enumerating(source)))
+            })
+        })],
+        ['collect', new MBuiltinFunction((args) => {
+            return argSizeCheck(1, args, (it) => {
+                return iterableCheck('collect', it[0], (source) => new MArray([...source]))
+            })
         })]
     ]
 )
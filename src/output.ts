@@ -0,0 +1,49 @@
+export interface OutputSink {
+    write(text: string): void
+
+    writeError(text: string): void
+}
+
+export class StdoutSink implements OutputSink {
+    write(text: string) {
+        process.stdout.write(text)
+    }
+
+    writeError(text: string) {
+        process.stderr.write(text)
+    }
+}
+
+/**
+ * Collects everything written, for tests and for embedding the interpreter.
+ */
+export class BufferSink implements OutputSink {
+    out = ''
+    err = ''
+
+    write(text: string) {
+        this.out += text
+    }
+
+    writeError(text: string) {
+        this.err += text
+    }
+
+    clear() {
+        this.out = ''
+        this.err = ''
+    }
+}
+
+let sink: OutputSink = new StdoutSink()
+
+export function outputSink(): OutputSink {
+    return sink
+}
+
+// returns the previous sink, so callers can restore it
+export function setOutputSink(newSink: OutputSink): OutputSink {
+    const previous = sink
+    sink = newSink
+    return previous
+}
@@ -1,52 +1,119 @@
 import {Lexer} from './lexer';
 import {
     ArrayLiteral,
+    ArrayPattern,
+    AssignExpression,
     BlockStatement,
     BooleanLiteral,
+    BreakStatement,
     CallExpression,
+    ContinueStatement,
+    DestructuringLetStatement,
+    ErrorNode,
     Expression,
+    ExpressionList,
     ExpressionStatement,
+    FloatLiteral,
+    ForStatement,
     FunctionLiteral, HashLiteral,
+    HashPattern,
     Identifier,
     IfExpression,
     IndexExpression,
     InfixExpression,
     IntegerLiteral,
+    InterpolatedString,
     LetStatement,
+    LiteralPattern,
+    MatchArm,
+    MatchExpression,
+    MemberExpression,
+    NullLiteral,
+    Parameter,
+    Pattern,
+    PipeExpression,
+    Placeholder,
     PrefixExpression,
     Program,
+    RangeExpression,
     ReturnStatement,
+    SliceExpression,
+    SpreadElement,
     Statement,
-    StringLiteral
+    StringLiteral,
+    WhileStatement,
+    WildcardPattern
 } from './ast';
-import {Token, TokenType} from './token';
+import {Position, Span, TemplatePart, TemplateToken, Token, TokenType} from './token';
+import {Diagnostic, ErrorCode} from './diagnostics';
 
 enum Precedence {
-    LOWEST, EQUALS, LESS_GREATER, SUM, PRODUCT, PREFIX, CALL, INDEX
+    LOWEST, ASSIGN, NULLISH, OR, AND, EQUALS, LESS_GREATER, PIPE, RANGE, SUM, PRODUCT, PREFIX, CALL, INDEX
 }
 
-type PrefixParser = () => Expression | null
-type InfixParser = (exp: Expression | null) => Expression | null
+type PrefixParser = () => Expression
+type InfixParser = (exp: Expression) => Expression
+
+const STATEMENT_KEYWORDS = [TokenType.LET, TokenType.CONST, TokenType.RETURN, TokenType.WHILE, TokenType.FOR, TokenType.BREAK, TokenType.CONTINUE]
+const ASSIGN_OPERATORS = [
+    TokenType.ASSIGN, TokenType.PLUS_ASSIGN, TokenType.MINUS_ASSIGN, TokenType.ASTERISK_ASSIGN, TokenType.SLASH_ASSIGN, TokenType.PERCENT_ASSIGN
+]
+const LITERAL_PATTERNS = [TokenType.INT, TokenType.FLOAT, TokenType.STRING, TokenType.TRUE, TokenType.FALSE, TokenType.NULL]
+const INTEGER_EXPRESSION = /^(0[xX][0-9a-fA-F](_?[0-9a-fA-F])*|0[bB][01](_?[01])*|0[oO][0-7](_?[0-7])*|\d(_?\d)*)$/
+const FLOAT_EXPRESSION = /^\d(_?\d)*(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?$/
 
 export class Parser {
     private parseIntegerLiteral: PrefixParser = () => {
         const token = this.curToken;
-        const value = parseInt(token.literal)
-        if (isNaN(value)) {
-            this._errors.push(`could not parse ${token.literal} as integer`)
-            return null
+        if (!INTEGER_EXPRESSION.test(token.literal)) {
+            this.error(ErrorCode.INVALID_INTEGER, `could not parse ${token.literal} as integer`, token.span)
+            return this.errorNode()
         }
-        return new IntegerLiteral(token, value)
+        const literal = token.literal.replace(/_/g, '')
+        const value = Number(literal)
+        return new IntegerLiteral(token, Number.isSafeInteger(value) ? value : BigInt(literal))
+    }
+
+    private parseFloatLiteral: PrefixParser = () => {
+        const token = this.curToken;
+        if (!FLOAT_EXPRESSION.test(token.literal)) {
+            this.error(ErrorCode.INVALID_FLOAT, `could not parse ${token.literal} as float`, token.span)
+            return this.errorNode()
+        }
+        return new FloatLiteral(token, Number(token.literal.replace(/_/g, '')))
+    }
+
+    private parseIllegal: PrefixParser = () => {
+        // the lexer has already reported this token, only recovery is left to do
+        this.panicMode = true
+        this.panicDiagnostic = this.lexerDiagnostic(this.curToken)
+        return new ErrorNode(this.curToken, this.panicDiagnostic)
     }
 
     private parseBooleanLiteral: PrefixParser = () => {
         return new BooleanLiteral(this.curToken, this.curTokenIs(TokenType.TRUE))
     }
 
+    private parseNullLiteral: PrefixParser = () => {
+        return new NullLiteral(this.curToken)
+    }
+
     private parseIdentifier: PrefixParser = () => {
+        if (this.arrowLambdas && this.peekTokenIs(TokenType.ARROW)) {
+            const parameter = new Parameter(this.curToken, this.curToken.literal)
+            this.nextToken()
+            return this.parseLambdaBody(this.curToken, [parameter])
+        }
         return new Identifier(this.curToken, this.curToken.literal)
     }
 
+    private parseLambda: PrefixParser = () => {
+        const token = this.curToken
+        // || is the parameter list of a lambda without parameters
+        const parameters = this.curTokenIs(TokenType.OR) ? [] : this.parseFunctionParameters(TokenType.BAR)
+        return parameters === null ? this.errorNode() : this.parseLambdaBody(token, parameters)
+    }
+
 
     private parsePrefixExpression: PrefixParser = () => {
         const token = this.curToken
@@ -60,32 +127,33 @@ export class Parser {
         this.nextToken();
         const exp = this.parseExpression(Precedence.LOWEST);
         if (!this.expectPeek(TokenType.RPAREN)) {
-            return null
+            return this.errorNode()
         }
         return exp;
     }
 
     private parseArrayLiteral: PrefixParser = () => {
         const token = this.curToken
-        return new ArrayLiteral(token, this.parseExpressionList(TokenType.RBRACKET))
+        const elements = this.parseExpressionList(TokenType.RBRACKET)
+        return elements === null ? this.errorNode() : new ArrayLiteral(token, elements)
     }
 
     private parseIfExpression: PrefixParser = () => {
         const token = this.curToken
 
         if (!this.expectPeek(TokenType.LPAREN)) {
-            return null
+            return this.errorNode()
         }
 
         this.nextToken()
 
         const condition = this.parseExpression(Precedence.LOWEST)
         if (!this.expectPeek(TokenType.RPAREN)) {
-            return null
+            return this.errorNode()
         }
 
         if (!this.expectPeek(TokenType.LBRACE)) {
-            return null;
+            return this.errorNode()
         }
 
         const consequence = this.parseBlockStatement()
@@ -94,7 +162,7 @@ export class Parser {
         if (this.peekTokenIs(TokenType.ELSE)) {
             this.nextToken()
             if (!this.expectPeek(TokenType.LBRACE)) {
-                return null
+                return this.errorNode()
             }
             alternative = this.parseBlockStatement()
         }
@@ -104,42 +172,76 @@ export class Parser {
     private parseFunctionLiteral: PrefixParser = () => {
         const token = this.curToken;
         if (!this.expectPeek(TokenType.LPAREN)) {
-            return null
+            return this.errorNode()
         }
-        const parameters = this.parseFunctionParameters()
-        if (!this.expectPeek(TokenType.LBRACE)) {
-            return null
+        const parameters = this.parseFunctionParameters(TokenType.RPAREN)
+        if (parameters === null || !this.expectPeek(TokenType.LBRACE)) {
+            return this.errorNode()
         }
-        const body = this.parseBlockStatement()
-        return new FunctionLiteral(token, parameters, body)
+        return new FunctionLiteral(token, parameters, this.parseFunctionBody(() => this.parseBlockStatement()))
+    }
+
+    private parseMatchExpression: PrefixParser = () => {
+        const token = this.curToken
+        if (!this.expectPeek(TokenType.LPAREN)) {
+            return this.errorNode()
+        }
+        this.nextToken()
+        const subject = this.parseExpression(Precedence.LOWEST)
+        if (!this.expectPeek(TokenType.RPAREN) || !this.expectPeek(TokenType.LBRACE)) {
+            return this.errorNode()
+        }
+        const arms = new Array<MatchArm>()
+        while (!this.peekTokenIs(TokenType.RBRACE)) {
+            this.nextToken()
+            const arm = this.parseMatchArm()
+            if (arm === null) {
+                return this.errorNode()
+            }
+            arms.push(arm)
+            if (!this.peekTokenIs(TokenType.RBRACE) && !this.expectPeek(TokenType.COMMA)) {
+                return this.errorNode()
+            }
+        }
+        return !this.expectPeek(TokenType.RBRACE) ? this.errorNode() : new MatchExpression(token, subject, arms)
     }
 
     private parseStringLiteral: PrefixParser = () => {
         return new StringLiteral(this.curToken, this.curToken.literal)
     }
 
+    private parseInterpolatedString: PrefixParser = () => {
+        const token = this.curToken as TemplateToken
+        const parts = token.parts.map((part) => {
+            if (part instanceof TemplatePart) {
+                return this.parseInterpolation(token, part)
+            }
+            return new StringLiteral(token, part)
+        })
+        return new InterpolatedString(token, parts)
+    }
+
     private parseHashLiteral: PrefixParser = () => {
         const token = this.curToken
         const pairs = new Map<Expression, Expression>()
         while (!this.peekTokenIs(TokenType.RBRACE)) {
             this.nextToken()
-            const key = this.parseExpression(Precedence.LOWEST)
-            if (!this.expectPeek(TokenType.COLON)) {
-                return null
-            }
-            this.nextToken()
-            const value = this.parseExpression(Precedence.LOWEST)
-            /*if (key !== null && value !== null) {
-                pairs.set(key, value)
+            if (this.curTokenIs(TokenType.ELLIPSIS)) {
+                const spread = this.parseSpreadElement()
+                pairs.set(spread, spread.value)
             } else {
-                throw new Error(`key:${key} or value:${value} are null`)
-            }*/
-            pairs.set(key!!, value!!)
+                const key = this.parseExpression(Precedence.LOWEST)
+                if (!this.expectPeek(TokenType.COLON)) {
+                    return this.errorNode()
+                }
+                this.nextToken()
+                pairs.set(key, this.parseExpression(Precedence.LOWEST))
+            }
             if (!this.peekTokenIs(TokenType.RBRACE) && !this.expectPeek(TokenType.COMMA)) {
-                return null
+                return this.errorNode()
             }
         }
-        return !this.expectPeek(TokenType.RBRACE) ? null : new HashLiteral(token, pairs)
+        return !this.expectPeek(TokenType.RBRACE) ? this.errorNode() : new HashLiteral(token, pairs)
     }
 
     private parseInfixExpression: InfixParser = (left) => {
@@ -151,30 +253,88 @@ export class Parser {
         return new InfixExpression(token, left, operator, right)
     }
 
+    private parseAssignExpression: InfixParser = (target) => {
+        const token = this.curToken
+        const place = target instanceof IndexExpression || target instanceof MemberExpression
+        if (!(target instanceof Identifier) && !(place && !target.optional)) {
+            this.error(ErrorCode.INVALID_ASSIGNMENT_TARGET, `can't assign to ${target}`, target.span)
+            return this.errorNode()
+        }
+        this.nextToken()
+        // right associative, a = b = 1 assigns b first
+        const value = this.parseExpression(Precedence.LOWEST)
+        return new AssignExpression(token, target, token.literal, value)
+    }
+
+    private parseRangeExpression: InfixParser = (start) => {
+        const token = this.curToken
+        this.nextToken()
+        const end = this.parseExpression(Precedence.RANGE)
+        let step: Expression | null = null
+        // step is only a keyword right after the end of a range
+        if (this.peekTokenIs(TokenType.IDENT) && this.peekToken.literal === 'step') {
+            this.nextToken()
+            this.nextToken()
+            step = this.parseExpression(Precedence.RANGE)
+        }
+        return new RangeExpression(token, start, end, token.tokenType === TokenType.RANGE_INCLUSIVE, step)
+    }
+
+    private parsePipeExpression: InfixParser = (left) => {
+        const token = this.curToken
+        this.nextToken()
+        const right = this.parseExpression(Precedence.PIPE)
+        // the left value becomes the first argument, or fills the placeholder of a partial call
+        const call = right instanceof CallExpression && !right.partial
+            ? new CallExpression(right.token, right.fun, [left, ...right.args], right.optional)
+            : new CallExpression(token, right, [left])
+        return new PipeExpression(token, left, right, call)
+    }
+
     private parseCallExpression: InfixParser = (expression) => {
-        const token = this.curToken;
-        const args = this.parseExpressionList(TokenType.RPAREN)
-        return new CallExpression(token, expression, args)
+        return this.parseCall(expression, false)
     }
 
     private parseIndexExpression: InfixParser = (left) => {
-        const token = this.curToken;
-        this.nextToken()
-        const index = this.parseExpression(Precedence.LOWEST)
-        if (!this.expectPeek(TokenType.RBRACKET)) {
-            return null;
+        return this.parseIndex(left, false)
+    }
+
+    private parseMemberExpression: InfixParser = (object) => {
+        return this.parseMember(object, false)
+    }
+
+    private parseOptionalExpression: InfixParser = (left) => {
+        if (this.peekTokenIs(TokenType.IDENT)) {
+            return this.parseMember(left, true)
+        }
+        if (this.peekTokenIs(TokenType.LBRACKET)) {
+            this.nextToken()
+            return this.parseIndex(left, true)
+        }
+        if (this.peekTokenIs(TokenType.LPAREN)) {
+            this.nextToken()
+            return this.parseCall(left, true)
         }
-        return new IndexExpression(token, left, index)
+        this.error(ErrorCode.UNEXPECTED_TOKEN, `Expected next token to be IDENT, [ or (, got ${this.peekToken.tokenType} instead`, this.peekToken.span)
+        return this.errorNode()
     }
 
-    private _errors = new Array<string>()
+    private _diagnostics = new Array<Diagnostic>()
+    private panicMode = false
+    private panicDiagnostic: Diagnostic | null = null
+    private depth = 0
+    private loopDepth = 0
+    private arrowLambdas = true
     private curToken = new Token(TokenType.ILLEGAL, '')
     private peekToken = new Token(TokenType.ILLEGAL, '')
     private prefixParsers: Map<TokenType, PrefixParser> = new Map(
         [
+            [TokenType.ILLEGAL, this.parseIllegal],
             [TokenType.INT, this.parseIntegerLiteral],
+            [TokenType.FLOAT, this.parseFloatLiteral],
             [TokenType.TRUE, this.parseBooleanLiteral],
             [TokenType.FALSE, this.parseBooleanLiteral],
+            [TokenType.NULL, this.parseNullLiteral],
             [TokenType.IDENT, this.parseIdentifier],
             [TokenType.BANG, this.parsePrefixExpression],
             [TokenType.MINUS, this.parsePrefixExpression],
@@ -182,7 +342,11 @@ export class Parser {
             [TokenType.LBRACKET, this.parseArrayLiteral],
             [TokenType.IF, this.parseIfExpression],
             [TokenType.FUNCTION, this.parseFunctionLiteral],
+            [TokenType.MATCH, this.parseMatchExpression],
+            [TokenType.BAR, this.parseLambda],
+            [TokenType.OR, this.parseLambda],
             [TokenType.STRING, this.parseStringLiteral],
+            [TokenType.TEMPLATE, this.parseInterpolatedString],
             [TokenType.LBRACE, this.parseHashLiteral],
         ]
     );
@@ -192,12 +356,24 @@ export class Parser {
             [TokenType.MINUS, this.parseInfixExpression],
             [TokenType.SLASH, this.parseInfixExpression],
             [TokenType.ASTERISK, this.parseInfixExpression],
+            [TokenType.PERCENT, this.parseInfixExpression],
             [TokenType.EQ, this.parseInfixExpression],
             [TokenType.NOT_EQ, this.parseInfixExpression],
             [TokenType.LT, this.parseInfixExpression],
             [TokenType.GT, this.parseInfixExpression],
+            [TokenType.LT_EQ, this.parseInfixExpression],
+            [TokenType.GT_EQ, this.parseInfixExpression],
+            [TokenType.AND, this.parseInfixExpression],
+            [TokenType.OR, this.parseInfixExpression],
+            [TokenType.NULLISH, this.parseInfixExpression],
+            [TokenType.OPTIONAL, this.parseOptionalExpression],
+            [TokenType.DOT, this.parseMemberExpression],
+            [TokenType.PIPE, this.parsePipeExpression],
+            [TokenType.RANGE, this.parseRangeExpression],
+            [TokenType.RANGE_INCLUSIVE, this.parseRangeExpression],
             [TokenType.LPAREN, this.parseCallExpression],
-            [TokenType.LBRACKET, this.parseIndexExpression]
+            [TokenType.LBRACKET, this.parseIndexExpression],
+            ...ASSIGN_OPERATORS.map((tokenType): [TokenType, InfixParser] => [tokenType, this.parseAssignExpression]),
         ]
     );
     private precedences = new Map(
@@ -205,12 +381,24 @@ export class Parser {
             [TokenType.NOT_EQ, Precedence.EQUALS],
             [TokenType.LT, Precedence.LESS_GREATER],
             [TokenType.GT, Precedence.LESS_GREATER],
+            [TokenType.LT_EQ, Precedence.LESS_GREATER],
+            [TokenType.GT_EQ, Precedence.LESS_GREATER],
+            [TokenType.AND, Precedence.AND],
+            [TokenType.OR, Precedence.OR],
+            [TokenType.NULLISH, Precedence.NULLISH],
+            [TokenType.OPTIONAL, Precedence.INDEX],
+            [TokenType.DOT, Precedence.INDEX],
+            [TokenType.PIPE, Precedence.PIPE],
+            [TokenType.RANGE, Precedence.RANGE],
+            [TokenType.RANGE_INCLUSIVE, Precedence.RANGE],
             [TokenType.PLUS, Precedence.SUM],
             [TokenType.MINUS, Precedence.SUM],
             [TokenType.SLASH, Precedence.PRODUCT],
             [TokenType.ASTERISK, Precedence.PRODUCT],
+            [TokenType.PERCENT, Precedence.PRODUCT],
             [TokenType.LPAREN, Precedence.CALL],
-            [TokenType.LBRACKET, Precedence.INDEX]],
+            [TokenType.LBRACKET, Precedence.INDEX],
+            ...ASSIGN_OPERATORS.map((tokenType): [TokenType, Precedence] => [tokenType, Precedence.ASSIGN])],
     )
 
     constructor(private lexer: Lexer) {
@@ -222,9 +410,10 @@ export class Parser {
     parseProgram(): Program {
         const statements = new Array<Statement>()
         while (this.curToken.tokenType !== TokenType.EOF) {
-            const statement = this.parseStatement();
-            if (statement !== null) {
-                statements.push(statement)
+            const depth = this.depth
+            statements.push(this.parseStatement())
+            if (this.panicMode) {
+                this.synchronize(depth)
             }
             this.nextToken()
         }
@@ -232,34 +421,200 @@ export class Parser {
     }
 
     errors(): string[] {
-        return this._errors;
+        return this.diagnostics().map(diagnostic => diagnostic.message);
+    }
+
+    diagnostics(): Diagnostic[] {
+        return [...this.lexer.diagnostics(), ...this._diagnostics]
+            .sort((a, b) => (a.span?.start.offset ?? 0) - (b.span?.start.offset ?? 0));
+    }
+
+    private error(code: ErrorCode, message: string, span: Span, notes: string[] = []) {
+        if (this.panicMode) {
+            return
+        }
+        this.panicMode = true
+        // the lexer has already reported illegal tokens, don't report them a second time
+        const illegal = [this.curToken, this.peekToken]
+            .find(token => token.tokenType === TokenType.ILLEGAL && token.span.start.offset === span.start.offset)
+        if (illegal !== undefined) {
+            this.panicDiagnostic = this.lexerDiagnostic(illegal)
+            return
+        }
+        const last = this._diagnostics.at(-1)
+        if (last?.span?.start.offset !== span.start.offset) {
+            this._diagnostics.push(Diagnostic.error(code, message, span, notes))
+        }
+        this.panicDiagnostic = this._diagnostics.at(-1) ?? null
+    }
+
+    private errorNode(): ErrorNode {
+        return new ErrorNode(this.curToken, this.panicDiagnostic ?? this.lexerDiagnostic(this.curToken))
+    }
+
+    private lexerDiagnostic(token: Token): Diagnostic {
+        const offset = token.span.start.offset
+        return this.lexer.diagnostics().find(d => d.span?.start.offset === offset)
+            ?? Diagnostic.error(ErrorCode.ILLEGAL_CHARACTER, `illegal token '${token.literal}'`, token.span)
+    }
+
+    /**
+     * Panic-mode recovery: skips tokens until a new statement can start at the given brace depth.
+     * Returns true when it stopped on the closing brace of the enclosing block.
+     */
+    private synchronize(depth: number): boolean {
+        this.panicMode = false
+        while (!this.curTokenIs(TokenType.EOF)) {
+            if (this.depth === depth) {
+                if (this.curTokenIs(TokenType.RBRACE) && depth > 0) {
+                    return true
+                }
+                if (this.curTokenIs(TokenType.SEMICOLON)) {
+                    return false
+                }
+            }
+            if (this.depthAfterCurrent() === depth && STATEMENT_KEYWORDS.includes(this.peekToken.tokenType)) {
+                return false
+            }
+            this.nextToken()
+        }
+        return false
+    }
+
+    private depthAfterCurrent(): number {
+        if (this.curTokenIs(TokenType.LBRACE)) {
+            return this.depth + 1
+        }
+        if (this.curTokenIs(TokenType.RBRACE)) {
+            return Math.max(0, this.depth - 1)
+        }
+        return this.depth
     }
 
     private nextToken() {
+        this.depth = this.depthAfterCurrent()
         this.curToken = this.peekToken;
         this.peekToken = this.lexer.nextToken()
     }
 
-    private parseStatement(): Statement | null {
+    private parseCall(fun: Expression, optional: boolean): Expression {
+        const token = this.curToken;
+        const args = this.parseExpressionList(TokenType.RPAREN)
+        if (args === null) {
+            return this.errorNode()
+        }
+        const placeholders = args.map(arg => {
+            return arg instanceof Identifier && arg.value === '_' ? new Placeholder(arg.token) : arg
+        })
+        return new CallExpression(token, fun, placeholders, optional)
+    }
+
+    private parseLambdaBody(token: Token, parameters: Array<Parameter>): Expression {
+        this.nextToken()
+        const body = this.parseFunctionBody(() => {
+            if (this.curTokenIs(TokenType.LBRACE)) {
+                return this.parseBlockStatement()
+            }
+            const start = this.curToken
+            const expression = this.parseExpression(Precedence.LOWEST)
+            return new BlockStatement(start, [this.spanned(new ExpressionStatement(start, expression), start.span.start)])
+        })
+        return new FunctionLiteral(token, parameters, body, '', true)
+    }
+
+    private parseFunctionBody(parseBody: () => BlockStatement): BlockStatement {
+        // break and continue can't reach a loop outside of the function
+        const loopDepth = this.loopDepth
+        this.loopDepth = 0
+        const body = parseBody()
+        this.loopDepth = loopDepth
+        return body
+    }
+
+    private parseIndex(left: Expression, optional: boolean): Expression {
+        const token = this.curToken;
+        let index: Expression | null = null
+        if (!this.peekTokenIs(TokenType.COLON)) {
+            this.nextToken()
+            index = this.parseExpression(Precedence.LOWEST)
+        }
+        if (this.peekTokenIs(TokenType.COLON)) {
+            return this.parseSlice(token, left, index, optional)
+        }
+        if (index === null || !this.expectPeek(TokenType.RBRACKET)) {
+            return this.errorNode()
+        }
+        return new IndexExpression(token, left, index, optional)
+    }
+
+    private parseSlice(token: Token, left: Expression, start: Expression | null, optional: boolean): Expression {
+        this.nextToken()
+        let end: Expression | null = null
+        if (!this.peekTokenIs(TokenType.RBRACKET)) {
+            this.nextToken()
+            end = this.parseExpression(Precedence.LOWEST)
+        }
+        if (!this.expectPeek(TokenType.RBRACKET)) {
+            return this.errorNode()
+        }
+        return new SliceExpression(token, left, start, end, optional)
+    }
+
+    private parseSpreadElement(): SpreadElement {
+        const token = this.curToken
+        this.nextToken()
+        return this.spanned(new SpreadElement(token, this.parseExpression(Precedence.LOWEST)), token.span.start)
+    }
+
+    private parseListElement(): Expression {
+        return this.curTokenIs(TokenType.ELLIPSIS) ? this.parseSpreadElement() : this.parseExpression(Precedence.LOWEST)
+    }
+
+    private parseMember(object: Expression, optional: boolean): Expression {
+        const token = this.curToken
+        if (!this.expectPeek(TokenType.IDENT)) {
+            return this.errorNode()
+        }
+        return new MemberExpression(token, object, new Identifier(this.curToken, this.curToken.literal), optional)
+    }
+
+    private parseStatement(): Statement {
+        const start = this.curToken.span.start
         switch (this.curToken?.tokenType) {
             case TokenType.LET:
-                return this.parseLetStatement()
+            case TokenType.CONST:
+                return this.spanned(this.parseLetStatement(), start)
             case TokenType.RETURN:
-                return this.parseReturnStatement()
+                return this.spanned(this.parseReturnStatement(), start)
+            case TokenType.WHILE:
+                return this.spanned(this.parseWhileStatement(), start)
+            case TokenType.FOR:
+                return this.spanned(this.parseForStatement(), start)
+            case TokenType.BREAK:
+            case TokenType.CONTINUE:
+                return this.spanned(this.parseLoopControl(), start)
             default:
-                return this.parseExpressionStatement()
+                return this.spanned(this.parseExpressionStatement(), start)
         }
     }
 
-    private parseLetStatement(): Statement | null {
+    private spanned<T extends Statement>(node: T, start: Position): T {
+        node.span = new Span(start, this.curToken.span.end)
+        return node
+    }
+
+    private parseLetStatement(): Statement {
         const token = this.curToken;
+        if (this.peekTokenIs(TokenType.LBRACKET) || this.peekTokenIs(TokenType.LBRACE)) {
+            return this.parseDestructuringLetStatement()
+        }
         if (!this.expectPeek(TokenType.IDENT)) {
-            return null
+            return this.errorNode()
         }
         const name = new Identifier(this.curToken, this.curToken?.literal)
 
         if (!this.expectPeek(TokenType.ASSIGN)) {
-            return null
+            return this.errorNode()
         }
 
         this.nextToken()
@@ -272,6 +627,179 @@ export class Parser {
         return new LetStatement(token, name, value)
     }
 
+    private parseWhileStatement(): Statement {
+        const token = this.curToken
+        if (!this.expectPeek(TokenType.LPAREN)) {
+            return this.errorNode()
+        }
+        this.nextToken()
+        const condition = this.parseExpression(Precedence.LOWEST)
+        if (!this.expectPeek(TokenType.RPAREN) || !this.expectPeek(TokenType.LBRACE)) {
+            return this.errorNode()
+        }
+        return new WhileStatement(token, condition, this.parseLoopBody())
+    }
+
+    private parseForStatement(): Statement {
+        const token = this.curToken
+        if (!this.expectPeek(TokenType.LPAREN) || !this.expectPeek(TokenType.IDENT)) {
+            return this.errorNode()
+        }
+        const variable = new Identifier(this.curToken, this.curToken.literal)
+        if (!this.expectPeek(TokenType.IN)) {
+            return this.errorNode()
+        }
+        this.nextToken()
+        const iterable = this.parseExpression(Precedence.LOWEST)
+        if (!this.expectPeek(TokenType.RPAREN) || !this.expectPeek(TokenType.LBRACE)) {
+            return this.errorNode()
+        }
+        return new ForStatement(token, variable, iterable, this.parseLoopBody())
+    }
+
+    private parseLoopBody(): BlockStatement {
+        this.loopDepth++
+        const body = this.parseBlockStatement()
+        this.loopDepth--
+        if (this.peekTokenIs(TokenType.SEMICOLON)) {
+            this.nextToken()
+        }
+        return body
+    }
+
+    private parseLoopControl(): Statement {
+        const token = this.curToken
+        if (this.loopDepth == 0) {
+            this.error(ErrorCode.OUTSIDE_LOOP, `${token.literal} outside of a loop`, token.span)
+            return this.errorNode()
+        }
+        if (this.peekTokenIs(TokenType.SEMICOLON)) {
+            this.nextToken()
+        }
+        return token.tokenType === TokenType.BREAK ? new BreakStatement(token) : new ContinueStatement(token)
+    }
+
+    private parseDestructuringLetStatement(): Statement {
+        const token = this.curToken
+        this.nextToken()
+        const pattern = this.parsePattern()
+        if (pattern === null || !this.expectPeek(TokenType.ASSIGN)) {
+            return this.errorNode()
+        }
+        this.nextToken()
+        const value = this.parseExpression(Precedence.LOWEST)
+        if (this.peekTokenIs(TokenType.SEMICOLON)) {
+            this.nextToken()
+        }
+        return new DestructuringLetStatement(token, pattern as ArrayPattern | HashPattern, value)
+    }
+
+    private parseMatchArm(): MatchArm | null {
+        const pattern = this.parsePattern(true)
+        if (pattern === null) {
+            return null
+        }
+        let guard: Expression | null = null
+        if (this.peekTokenIs(TokenType.IF)) {
+            this.nextToken()
+            this.nextToken()
+            // the => ending the guard would otherwise start a lambda
+            this.arrowLambdas = false
+            guard = this.parseExpression(Precedence.LOWEST)
+            this.arrowLambdas = true
+        }
+        if (!this.expectPeek(TokenType.ARROW)) {
+            return null
+        }
+        this.nextToken()
+        return new MatchArm(pattern, guard, this.parseExpression(Precedence.LOWEST))
+    }
+
+    /**
+     * Refutable patterns, used by match arms, may also be literals and the `_` wildcard.
+     */
+    private parsePattern(refutable = false): Pattern | null {
+        const start = this.curToken.span.start
+        const tokenType = this.curToken.tokenType
+        if (refutable && tokenType === TokenType.IDENT && this.curToken.literal === '_') {
+            return new WildcardPattern(this.curToken)
+        }
+        if (refutable && (LITERAL_PATTERNS.includes(tokenType) || tokenType === TokenType.MINUS && this.peekIsNumber())) {
+            const token = this.curToken
+            return this.spanned(new LiteralPattern(token, this.parseExpression(Precedence.PREFIX)), start)
+        }
+        switch (tokenType) {
+            case TokenType.IDENT:
+                return new Identifier(this.curToken, this.curToken.literal)
+            case TokenType.LBRACKET: {
+                const pattern = this.parseArrayPattern(refutable)
+                return pattern === null ? null : this.spanned(pattern, start)
+            }
+            case TokenType.LBRACE: {
+                const pattern = this.parseHashPattern(refutable)
+                return pattern === null ? null : this.spanned(pattern, start)
+            }
+            default:
+                this.error(ErrorCode.INVALID_PATTERN, `expected a pattern, got ${tokenType}`, this.curToken.span)
+                return null
+        }
+    }
+
+    private peekIsNumber(): boolean {
+        return this.peekTokenIs(TokenType.INT) || this.peekTokenIs(TokenType.FLOAT)
+    }
+
+    private parseArrayPattern(refutable: boolean): ArrayPattern | null {
+        const token = this.curToken
+        const elements = new Array<Pattern>()
+        let rest: Identifier | null = null
+        while (!this.peekTokenIs(TokenType.RBRACKET)) {
+            this.nextToken()
+            if (this.curTokenIs(TokenType.ELLIPSIS)) {
+                if (!this.expectPeek(TokenType.IDENT)) {
+                    return null
+                }
+                rest = new Identifier(this.curToken, this.curToken.literal)
+                if (!this.peekTokenIs(TokenType.RBRACKET)) {
+                    this.error(ErrorCode.INVALID_PATTERN, 'a rest pattern must be the last one', this.curToken.span)
+                    return null
+                }
+                break
+            }
+            const element = this.parsePattern(refutable)
+            if (element === null) {
+                return null
+            }
+            elements.push(element)
+            if (!this.peekTokenIs(TokenType.RBRACKET) && !this.expectPeek(TokenType.COMMA)) {
+                return null
+            }
+        }
+        return this.expectPeek(TokenType.RBRACKET) ? new ArrayPattern(token, elements, rest) : null
+    }
+
+    private parseHashPattern(refutable: boolean): HashPattern | null {
+        const token = this.curToken
+        const entries = new Array<[Expression, Pattern]>()
+        while (!this.peekTokenIs(TokenType.RBRACE)) {
+            this.nextToken()
+            const key = this.parseExpression(Precedence.LOWEST)
+            if (!this.expectPeek(TokenType.COLON)) {
+                return null
+            }
+            this.nextToken()
+            const pattern = this.parsePattern(refutable)
+            if (pattern === null) {
+                return null
+            }
+            entries.push([key, pattern])
+            if (!this.peekTokenIs(TokenType.RBRACE) && !this.expectPeek(TokenType.COMMA)) {
+                return null
+            }
+        }
+        return this.expectPeek(TokenType.RBRACE) ? new HashPattern(token, entries) : null
+    }
+
     private expectPeek(tokenType: TokenType) {
         if (this.peekTokenIs(tokenType)) {
             this.nextToken();
@@ -286,30 +814,32 @@ export class Parser {
     }
 
     private peekError(tokenType: TokenType) {
-        this._errors.push(`Expected next token to be ${tokenType}, got ${this.peekToken?.tokenType} instead`)
+        const notes = this.peekTokenIs(TokenType.EOF) ? ['the input ended before this construct was closed'] : []
+        this.error(ErrorCode.UNEXPECTED_TOKEN, `Expected next token to be ${tokenType}, got ${this.peekToken?.tokenType} instead`, this.peekToken.span, notes)
     }
 
-    private parseExpression(precedence: Precedence): Expression | null {
+    private parseExpression(precedence: Precedence): Expression {
         const prefix = this.prefixParsers.get(this.curToken.tokenType)
         if (prefix === undefined) {
             this.noPrefixParserError(this.curToken.tokenType);
-            return null
+            return this.errorNode()
         }
-        let left = prefix()
+        const start = this.curToken.span.start
+        let left = this.spanned(prefix(), start)
 
-        while (!this.peekTokenIs(TokenType.SEMICOLON) && (precedence < this.peekPrecedence())) {
+        while (!this.panicMode && !this.peekTokenIs(TokenType.SEMICOLON) && (precedence < this.peekPrecedence())) {
             const infix = this.infixParsers.get(this.peekToken.tokenType)
             if (infix === undefined) {
                 return left
             }
             this.nextToken()
-            left = infix(left)
+            left = this.spanned(infix(left), start)
         }
         return left
     }
 
     private noPrefixParserError(tokenType: TokenType) {
-        this._errors.push(`No prefix parser for ${tokenType} function`)
+        this.error(ErrorCode.NO_PREFIX_PARSER, `No prefix parser for ${tokenType} function`, this.curToken.span)
     }
 
     private peekPrecedence() {
@@ -351,20 +881,20 @@ export class Parser {
         return this.findPrecedence(this.curToken.tokenType)
     }
 
-    private parseExpressionList(end: TokenType): Array<Expression | null> | null {
-        const args = new Array<Expression | null>()
+    private parseExpressionList(end: TokenType): ExpressionList | null {
+        const args = new Array<Expression>()
         if (this.peekTokenIs(end)) {
             this.nextToken()
             return args
         }
 
         this.nextToken()
-        args.push(this.parseExpression(Precedence.LOWEST))
+        args.push(this.parseListElement())
 
         while (this.peekTokenIs(TokenType.COMMA)) {
             this.nextToken()
             this.nextToken()
-            args.push(this.parseExpression(Precedence.LOWEST))
+            args.push(this.parseListElement())
         }
 
         if (!this.expectPeek(end)) {
@@ -375,40 +905,101 @@ export class Parser {
 
     private parseBlockStatement(): BlockStatement {
         const token = this.curToken
-        const statements = new Array<Statement | null>()
+        const statements = new Array<Statement>()
         this.nextToken()
         while (!this.curTokenIs(TokenType.RBRACE) && !this.curTokenIs(TokenType.EOF)) {
-            const statement = this.parseStatement()
-            if (statement !== null) {
-                statements.push(statement)
+            const depth = this.depth
+            statements.push(this.parseStatement())
+            if (this.panicMode && this.synchronize(depth)) {
+                break
             }
             this.nextToken()
         }
-        return new BlockStatement(token, statements)
+        if (this.curTokenIs(TokenType.EOF)) {
+            this.error(ErrorCode.UNEXPECTED_TOKEN, `Expected next token to be ${TokenType.RBRACE}, got ${TokenType.EOF} instead`, this.curToken.span, ['the input ended before this construct was closed'])
+        }
+        return this.spanned(new BlockStatement(token, statements), token.span.start)
+    }
+
+    private parseInterpolation(token: Token, part: TemplatePart): Expression {
+        const parser = new Parser(new Lexer(part.source, {start: part.start}))
+        const program = parser.parseProgram()
+        const diagnostics = parser.diagnostics()
+        if (diagnostics.length == 0) {
+            const statement = program.statements[0]
+            if (program.statements.length == 1 && statement instanceof ExpressionStatement) {
+                return statement.expression
+            }
+            diagnostics.push(Diagnostic.error(ErrorCode.INVALID_INTERPOLATION, 'expected a single expression inside ${...}', token.span))
+        }
+        this._diagnostics.push(...diagnostics)
+        return new ErrorNode(token, diagnostics[0])
     }
 
-    private parseFunctionParameters(): Array<Identifier> | null {
-        const parameters = Array<Identifier>()
-        if (this.peekTokenIs(TokenType.RPAREN)) {
+    private parseFunctionParameters(end: TokenType): Array<Parameter> | null {
+        const parameters = Array<Parameter>()
+        if (this.peekTokenIs(end)) {
             this.nextToken()
             return parameters
         }
         this.nextToken()
-        const token = this.curToken
-        parameters.push(new Identifier(token, token.literal))
-
-        while (this.peekTokenIs(TokenType.COMMA)) {
+        while (true) {
+            const parameter = this.parseParameter()
+            if (parameter === null) {
+                return null
+            }
+            if (parameter.defaultValue === null && !parameter.rest && parameters.at(-1)?.defaultValue != null) {
+                this.error(ErrorCode.INVALID_PARAMETER, "a required parameter can't follow one with a default value", parameter.span)
+                return null
+            }
+            parameters.push(parameter)
+            if (!this.peekTokenIs(TokenType.COMMA)) {
+                break
+            }
+            if (parameter.rest) {
+                this.error(ErrorCode.INVALID_PARAMETER, 'a rest parameter must be the last one', parameter.span)
+                return null
+            }
             this.nextToken()
             this.nextToken()
-            const innerToken = this.curToken
-            parameters.push(new Identifier(innerToken, innerToken.literal))
         }
 
-        if (!this.expectPeek(TokenType.RPAREN)) {
+        if (!this.expectPeek(end)) {
             return null
         }
 
         return parameters
 
     }
+
+    private parseParameter(): Parameter | null {
+        const start = this.curToken.span.start
+        const rest = this.curTokenIs(TokenType.ELLIPSIS)
+        if (rest) {
+            this.nextToken()
+        }
+        const token = this.curToken
+        let pattern: ArrayPattern | HashPattern | null = null
+        if (this.curTokenIs(TokenType.LBRACKET) || this.curTokenIs(TokenType.LBRACE)) {
+            pattern = this.parsePattern() as ArrayPattern | HashPattern | null
+            if (pattern === null) {
+                return null
+            }
+        } else if (!this.curTokenIs(TokenType.IDENT)) {
+            this.error(ErrorCode.INVALID_PARAMETER, `expected a parameter name, got ${token.tokenType}`, token.span)
+            return null
+        }
+        let defaultValue: Expression | null = null
+        if (this.peekTokenIs(TokenType.ASSIGN)) {
+            this.nextToken()
+            if (rest) {
+                this.error(ErrorCode.INVALID_PARAMETER, "a rest parameter can't have a default value", this.curToken.span)
+                return null
+            }
+            this.nextToken()
+            defaultValue = this.parseExpression(Precedence.LOWEST)
+        }
+        const name = pattern !== null ? pattern.toString() : token.literal
+        return this.spanned(new Parameter(token, name, defaultValue, rest, pattern), start)
+    }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import {MArray, MHash, MObject, MString} from './objects';
+
+export interface PrintOptions {
+    // one element per line, nested collections indented
+    pretty?: boolean
+    indent?: number
+    // collections nested deeper than this print as [...] or {...}
+    maxDepth?: number
+    // collections print at most this many elements followed by ...
+    maxWidth?: number
+}
+
+const ESCAPES = new Map([['\n', '\\n'], ['\t', '\\t'], ['\r', '\\r'], ['\0', '\\0'], ['"', '\\"'], ['\\', '\\\\']])
+
+export function quote(value: string): string {
+    let result = ''
+    for (let i = 0; i < value.length; i++) {
+        const ch = value[i]
+        const escape = ESCAPES.get(ch)
+        if (escape !== undefined) {
+            result += escape
+        } else if (ch == '$' && value[i + 1] == '{') {
+            result += '\\$'
+        } else if (ch < ' ' || ch == '\x7f') {
+            result += `\\u{${ch.charCodeAt(0).toString(16)}}`
+        } else {
+            result += ch
+        }
+    }
+    return `"${result}"`
+}
+
+// strings print as is, everything else as it would inspect
+export function display(obj: MObject | null): string {
+    return obj instanceof MString ? obj.getValue() : print(obj)
+}
+
+export function print(obj: MObject | null, options: PrintOptions = {}): string {
+    return new Printer(options).print(obj, 0)
+}
+
+class Printer {
+    private readonly pretty: boolean
+    private readonly indent: string
+    private readonly maxDepth: number
+    private readonly maxWidth: number
+    private readonly printing = new Set<MObject>()
+
+    constructor(options: PrintOptions) {
+        this.pretty = options.pretty ?? false
+        this.indent = ' '.repeat(options.indent ?? 2)
+        this.maxDepth = options.maxDepth ?? Infinity
+        this.maxWidth = options.maxWidth ?? Infinity
+    }
+
+    print(obj: MObject | null, depth: number): string {
+        if (obj === null) {
+            return 'null'
+        }
+        if (obj instanceof MString) {
+            return quote(obj.getValue())
+        }
+        if (obj instanceof MArray) {
+            return this.collection(obj, '[', ']', depth, obj.elements, element => this.print(element, depth + 1))
+        }
+        if (obj instanceof MHash) {
+            return this.collection(obj, '{', '}', depth, [...obj.pairs.values()], pair => {
+                return `${this.print(pair.key, depth + 1)}: ${this.print(pair.value, depth + 1)}`
+            })
+        }
+        return obj.inspect()
+    }
+
+    private collection<T>(obj: MObject, open: string, close: string, depth: number, entries: T[], printEntry: (entry: T) => string): string {
+        if (this.printing.has(obj)) {
+            return '<cycle>'
+        }
+        if (depth >= this.maxDepth) {
+            return entries.length === 0 ? `${open}${close}` : `${open}...${close}`
+        }
+        this.printing.add(obj)
+        const printed = entries.slice(0, this.maxWidth).map(printEntry)
+        this.printing.delete(obj)
+        if (entries.length > this.maxWidth) {
+            printed.push('...')
+        }
+        if (printed.length === 0) {
+            return `${open}${close}`
+        }
+        if (!this.pretty) {
+            return `${open}${printed.join(', ')}${close}`
+        }
+        const padding = this.indent.repeat(depth + 1)
+        return `${open}\n${printed.map(item => padding + item).join(',\n')}\n${this.indent.repeat(depth)}${close}`
+    }
+}
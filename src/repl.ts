@@ -0,0 +1,257 @@
+import {appendFileSync, existsSync, readFileSync, writeFileSync} from 'fs';
+import {homedir} from 'os';
+import {join} from 'path';
+import {clearLine, createInterface, cursorTo, emitKeypressEvents, Interface} from 'readline';
+import {Lexer} from './lexer';
+import {Parser} from './parser';
+import {Environment, evaluate} from './evaluator';
+import {builtins, MError, MObject} from './objects';
+import {ErrorCode, renderDiagnostic, renderDiagnostics} from './diagnostics';
+import {keywords, TokenType} from './token';
+import {print, quote} from './printer';
+import {outputSink} from './output';
+import {highlight} from './highlight';
+
+const PROMPT = '>> '
+const CONTINUATION_PROMPT = '.. '
+const HISTORY_FILE = join(homedir(), '.monkey_history')
+const HISTORY_SIZE = 1000
+
+const IDENTIFIER_SUFFIX = /[\p{L}_]*$/u
+
+const OPENERS = [TokenType.LPAREN, TokenType.LBRACE, TokenType.LBRACKET]
+const CLOSERS = [TokenType.RPAREN, TokenType.RBRACE, TokenType.RBRACKET]
+
+export const HELP = `:tokens <code>   show the tokens of <code>
+:ast <code>      show how <code> parses
+:env             list the bindings of the session
+:load <file>     run <file> in the session
+:reset           forget every binding
+:time <code>     run <code> and show how long it took
+:help            show this message
+:quit            leave the REPL`
+
+const COMMANDS = HELP.split('\n').map(line => line.split(' ')[0])
+
+/**
+ * Input is incomplete while brackets are left open or a string or block comment is unterminated.
+ */
+export function isIncomplete(source: string): boolean {
+    const lexer = new Lexer(source)
+    let depth = 0
+    for (let token = lexer.nextToken(); token.tokenType !== TokenType.EOF; token = lexer.nextToken()) {
+        if (OPENERS.includes(token.tokenType)) {
+            depth++
+        } else if (CLOSERS.includes(token.tokenType)) {
+            depth--
+        }
+    }
+    const unterminated = lexer.diagnostics().some(diagnostic => {
+        return diagnostic.code === ErrorCode.UNTERMINATED_STRING || diagnostic.code === ErrorCode.UNTERMINATED_COMMENT
+    })
+    return depth > 0 || unterminated
+}
+
+export class Repl {
+    private env = Environment.newEnvironment()
+    private readonly lines = new Array<string>()
+
+    constructor(private readonly color = false, private readonly width = 80) {
+    }
+
+    /**
+     * Completes the identifier at the end of `line` from the session bindings, builtins and keywords.
+     */
+    complete(line: string): [string[], string] {
+        if (this.lines.length == 0 && /^:\w*$/.test(line)) {
+            return [COMMANDS.filter(command => command.startsWith(line)), line]
+        }
+        const prefix = IDENTIFIER_SUFFIX.exec(line)![0]
+        if (prefix === '') {
+            return [[], prefix]
+        }
+        const names = new Set([...this.env.names(), ...builtins.keys(), ...keywords()])
+        return [[...names].filter(name => name.startsWith(prefix)).sort(), prefix]
+    }
+
+    prompt(): string {
+        return this.lines.length > 0 ? CONTINUATION_PROMPT : PROMPT
+    }
+
+    /**
+     * Takes one line of input, returns false once the session should end.
+     * A blank line submits unbalanced input anyway, so a typo can't trap the prompt.
+     */
+    feed(line: string): boolean {
+        if (this.lines.length == 0 && line.trimStart().startsWith(':')) {
+            return this.command(line.trim())
+        }
+        this.lines.push(line)
+        const source = this.lines.join('\n')
+        if (line.trim() !== '' && isIncomplete(source)) {
+            return true
+        }
+        this.lines.length = 0
+        if (source.trim() !== '') {
+            this.run(source, true)
+        }
+        return true
+    }
+
+    private command(line: string): boolean {
+        const space = line.indexOf(' ')
+        const name = space < 0 ? line : line.substring(0, space)
+        const argument = space < 0 ? '' : line.substring(space + 1).trim()
+        const sink = outputSink()
+        switch (name) {
+            case ':tokens':
+                this.tokens(argument)
+                break
+            case ':ast':
+                this.ast(argument)
+                break
+            case ':env':
+                this.bindings()
+                break
+            case ':load':
+                this.load(argument)
+                break
+            case ':reset':
+                this.env = Environment.newEnvironment()
+                break
+            case ':time': {
+                const start = performance.now()
+                this.run(argument, true)
+                sink.write(`time: ${(performance.now() - start).toFixed(3)}ms\n`)
+                break
+            }
+            case ':help':
+                sink.write(`${HELP}\n`)
+                break
+            case ':quit':
+                return false
+            default:
+                sink.writeError(`unknown command ${name}, :help lists them\n`)
+        }
+        return true
+    }
+
+    private tokens(source: string) {
+        const lexer = new Lexer(source, {comments: true})
+        const lines = []
+        for (let token = lexer.nextToken(); token.tokenType !== TokenType.EOF; token = lexer.nextToken()) {
+            lines.push(`${token.span.toString().padEnd(10)} ${token.tokenType.padEnd(8)} ${quote(token.literal)}`)
+        }
+        outputSink().write(lines.map(line => `${line}\n`).join(''))
+    }
+
+    private ast(source: string) {
+        const parser = new Parser(new Lexer(source))
+        const program = parser.parseProgram()
+        if (this.reportSyntaxErrors(parser, source)) {
+            return
+        }
+        program.statements.forEach(statement => {
+            outputSink().write(`${statement.constructor.name} ${statement}\n`)
+        })
+    }
+
+    private bindings() {
+        const names = [...new Set(this.env.names())].sort()
+        names.forEach(name => {
+            outputSink().write(`${name} = ${this.show(this.env.get(name))}\n`)
+        })
+    }
+
+    private load(file: string) {
+        let source: string
+        try {
+            source = readFileSync(file, 'utf8')
+        } catch (e) {
+            outputSink().writeError(`can't read ${file}: ${(e as Error).message}\n`)
+            return
+        }
+        this.run(source, false)
+    }
+
+    private run(source: string, echo: boolean) {
+        const parser = new Parser(new Lexer(source))
+        const program = parser.parseProgram()
+        if (this.reportSyntaxErrors(parser, source)) {
+            return
+        }
+        const output = evaluate(program, this.env)
+        if (output instanceof MError) {
+            outputSink().writeError(`${renderDiagnostic(output.diagnostic(), source, this.color)}\n`)
+        } else if (output !== null && echo) {
+            outputSink().write(`${this.show(output)}\n`)
+        }
+    }
+
+    private reportSyntaxErrors(parser: Parser, source: string): boolean {
+        const diagnostics = parser.diagnostics()
+        if (diagnostics.length > 0) {
+            outputSink().writeError(`${renderDiagnostics(diagnostics, source, this.color)}\n`)
+        }
+        return diagnostics.length > 0
+    }
+
+    private show(value: MObject | null): string {
+        const inline = print(value)
+        const text = inline.length > this.width ? print(value, {pretty: true}) : inline
+        return this.color ? highlight(text) : text
+    }
+}
+
+function loadHistory(): string[] {
+    if (!existsSync(HISTORY_FILE)) {
+        return []
+    }
+    const lines = readFileSync(HISTORY_FILE, 'utf8').split('\n').filter(line => line.trim() !== '').slice(-HISTORY_SIZE)
+    // keep the file from growing forever
+    writeFileSync(HISTORY_FILE, lines.map(line => `${line}\n`).join(''))
+    // readline wants the newest entry first
+    return lines.reverse()
+}
+
+// readline has no hook for styling the line being edited, so it is drawn again after every key
+function highlightInput(rl: Interface) {
+    emitKeypressEvents(process.stdin)
+    process.stdin.on('keypress', () => {
+        setImmediate(() => {
+            clearLine(process.stdout, 0)
+            cursorTo(process.stdout, 0)
+            process.stdout.write(rl.getPrompt() + highlight(rl.line))
+            cursorTo(process.stdout, rl.getPrompt().length + rl.cursor)
+        })
+    })
+}
+
+export function startRepl() {
+    const color = process.stdout.isTTY === true
+    const repl = new Repl(color, process.stdout.columns ?? 80)
+    const rl = createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        history: loadHistory(),
+        historySize: HISTORY_SIZE,
+        completer: (line: string) => repl.complete(line),
+    })
+    if (color) {
+        highlightInput(rl)
+    }
+    console.log('Hello, this is the TSMonkey programming language, :help lists the REPL commands')
+    rl.setPrompt(repl.prompt())
+    rl.prompt()
+    rl.on('line', (line) => {
+        if (line.trim() !== '') {
+            appendFileSync(HISTORY_FILE, `${line}\n`)
+        }
+        if (!repl.feed(line)) {
+            rl.close()
+            return
+        }
+        rl.setPrompt(repl.prompt())
+        rl.prompt()
+    })
+}
@@ -2,20 +2,40 @@ export enum TokenType {
     ILLEGAL = 'ILLEGAL',
     EOF = 'EOF',
     ASSIGN = '=',
+    PLUS_ASSIGN = '+=',
+    MINUS_ASSIGN = '-=',
+    ASTERISK_ASSIGN = '*=',
+    SLASH_ASSIGN = '/=',
+    PERCENT_ASSIGN = '%=',
     EQ = '==',
     NOT_EQ = '!=',
     IDENT = 'IDENT',
     INT = 'INT',
+    FLOAT = 'FLOAT',
     PLUS = '+',
     COMMA = ',',
     SEMICOLON = ';',
+    ELLIPSIS = '...',
+    DOT = '.',
+    RANGE = '..',
+    RANGE_INCLUSIVE = '..=',
+    ARROW = '=>',
     COLON = ':',
     MINUS = '-',
     BANG = '!',
     SLASH = '/',
     ASTERISK = '*',
+    PERCENT = '%',
     LT = '<',
     GT = '>',
+    LT_EQ = '<=',
+    GT_EQ = '>=',
+    AND = '&&',
+    OR = '||',
+    PIPE = '|>',
+    BAR = '|',
+    NULLISH = '??',
+    OPTIONAL = '?.',
     LPAREN = '(',
     RPAREN = ')',
     LBRACE = '{',
@@ -24,40 +44,92 @@ export enum TokenType {
     RBRACKET = ']',
     FUNCTION = 'FUNCTION',
     LET = 'LET',
+    CONST = 'CONST',
     TRUE = 'TRUE',
     FALSE = 'FALSE',
+    NULL = 'NULL',
     IF = 'IF',
     ELSE = 'ELSE',
     RETURN = 'RETURN',
+    WHILE = 'WHILE',
+    FOR = 'FOR',
+    IN = 'IN',
+    BREAK = 'BREAK',
+    CONTINUE = 'CONTINUE',
+    MATCH = 'MATCH',
     STRING = 'STRING',
+    TEMPLATE = 'TEMPLATE',
+    COMMENT = 'COMMENT',
 }
 
+const KEYWORDS = new Map([
+    ['fn', TokenType.FUNCTION],
+    ['let', TokenType.LET],
+    ['const', TokenType.CONST],
+    ['true', TokenType.TRUE],
+    ['false', TokenType.FALSE],
+    ['null', TokenType.NULL],
+    ['if', TokenType.IF],
+    ['else', TokenType.ELSE],
+    ['return', TokenType.RETURN],
+    ['while', TokenType.WHILE],
+    ['for', TokenType.FOR],
+    ['in', TokenType.IN],
+    ['break', TokenType.BREAK],
+    ['continue', TokenType.CONTINUE],
+    ['match', TokenType.MATCH],
+])
+
 export function lookupIdent(value: string): TokenType {
-    switch (value) {
-        case 'fn':
-            return TokenType.FUNCTION;
-        case 'let':
-            return TokenType.LET;
-        case 'true':
-            return TokenType.TRUE;
-        case 'false':
-            return TokenType.FALSE;
-        case 'if':
-            return TokenType.IF;
-        case 'else':
-            return TokenType.ELSE;
-        case 'return':
-            return TokenType.RETURN;
-        default:
-            return TokenType.IDENT
+    return KEYWORDS.get(value) ?? TokenType.IDENT
+}
+
+export function keywords(): string[] {
+    return [...KEYWORDS.keys()]
+}
+
+export function isKeyword(tokenType: TokenType): boolean {
+    return [...KEYWORDS.values()].includes(tokenType)
+}
+
+export class Position {
+    constructor(public readonly line: number, public readonly column: number, public readonly offset: number) {
+    }
+
+    static readonly START = new Position(1, 1, 0)
+
+    toString(): string {
+        return `${this.line}:${this.column}`
+    }
+}
+
+export class Span {
+    constructor(public readonly start: Position, public readonly end: Position) {
+    }
+
+    static readonly EMPTY = new Span(Position.START, Position.START)
+
+    toString(): string {
+        return `${this.start}-${this.end}`
     }
 }
 
 export class Token {
-    constructor(public tokenType: TokenType, public literal: string) {
+    constructor(public tokenType: TokenType, public literal: string, public span: Span = Span.EMPTY) {
     }
 
     toString(): string {
         return `Token(tokenType = ${this.tokenType}, literal = "${this.literal}")`
     }
-}
\ No newline at end of file
+}
+
+export class TemplatePart {
+    constructor(public readonly source: string, public readonly start: Position) {
+    }
+}
+
+export class TemplateToken extends Token {
+    constructor(literal: string, public readonly parts: Array<string | TemplatePart>) {
+        super(TokenType.TEMPLATE, literal);
+    }
+}
@@ -0,0 +1,74 @@
+import {mkdtempSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {ExitCode, main, parseCommand, runSource, UsageError} from '../src/cli';
+import {BufferSink, OutputSink, setOutputSink} from '../src/output';
+
+describe('cli tests', () => {
+    const sink = new BufferSink()
+    let previous: OutputSink
+
+    beforeEach(() => {
+        sink.clear()
+        previous = setOutputSink(sink)
+    })
+    afterEach(() => {
+        setOutputSink(previous)
+    })
+
+    test('parse commands', () => {
+        expect(parseCommand([])).toEqual({kind: 'repl'})
+        expect(parseCommand([], false)).toEqual({kind: 'run', file: '-', args: [], watch: false})
+        expect(parseCommand(['--help'])).toEqual({kind: 'help'})
+        expect(parseCommand(['run', 'script.mk', 'a', '--watch'])).toEqual({kind: 'run', file: 'script.mk', args: ['a', '--watch'], watch: false})
+        expect(parseCommand(['run', '--watch', 'script.mk'])).toEqual({kind: 'run', file: 'script.mk', args: [], watch: true})
+        expect(parseCommand(['-e', 'puts(1)', 'x'])).toEqual({kind: 'eval', source: 'puts(1)', args: ['x']})
+        expect(() => parseCommand(['run'])).toThrow(UsageError)
+        expect(() => parseCommand(['-e'])).toThrow(UsageError)
+        expect(() => parseCommand(['run', '--watch', '-'])).toThrow(UsageError)
+        expect(() => parseCommand(['walk'])).toThrow('unknown command: walk')
+    })
+    test('exit codes', () => {
+        const codes = [ExitCode.OK, ExitCode.RUNTIME_ERROR, ExitCode.SYNTAX_ERROR, ExitCode.USAGE_ERROR]
+        expect(new Set(codes).size).toBe(codes.length)
+    })
+    test('run source', () => {
+        expect(runSource('puts(len(args), first(args))', ['one', 'two'])).toBe(ExitCode.OK)
+        expect(sink.out).toBe('2\none\n')
+        expect(sink.err).toBe('')
+    })
+    test('syntax errors', () => {
+        expect(runSource('puts("never");\nlet = 1;', [])).toBe(ExitCode.SYNTAX_ERROR)
+        expect(sink.out).toBe('')
+        expect(sink.err).toContain('error[P0003]')
+        expect(sink.err).toContain('2 | let = 1;')
+    })
+    test('runtime errors', () => {
+        expect(runSource('puts("before"); 1 + missing; puts("after")', [])).toBe(ExitCode.RUNTIME_ERROR)
+        expect(sink.out).toBe('before\n')
+        expect(sink.err).toContain('error[R0001]: identifier not found: missing')
+    })
+    test('main', async () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'monkey-')), 'script.mk')
+        writeFileSync(file, 'puts("hello ${first(args)}")')
+        expect(await main(['run', file, 'world'])).toBe(ExitCode.OK)
+        expect(sink.out).toBe('hello world\n')
+
+        expect(await main(['-e', 'puts(6 * 7)'])).toBe(ExitCode.OK)
+        expect(sink.out).toBe('hello world\n42\n')
+
+        expect(await main(['run', join(file, 'missing.mk')])).toBe(ExitCode.USAGE_ERROR)
+        expect(sink.err).toContain("monkey: can't read")
+
+        sink.clear()
+        expect(await main(['run', '--watch', join(file, 'missing.mk')])).toBe(ExitCode.USAGE_ERROR)
+        expect(sink.err).toContain("monkey: can't read")
+
+        sink.clear()
+        expect(await main(['--watch'])).toBe(ExitCode.USAGE_ERROR)
+        expect(sink.err).toContain('monkey: unknown command: --watch\nusage:')
+
+        expect(await main(['--help'])).toBe(ExitCode.OK)
+        expect(sink.out).toContain('monkey run [--watch] <file> [args...]')
+    })
+})
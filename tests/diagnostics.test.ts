@@ -0,0 +1,73 @@
+import {Lexer} from '../src/lexer';
+import {Parser} from '../src/parser';
+import {Environment, evaluate} from '../src/evaluator';
+import {MError} from '../src/objects';
+import {ErrorCode, renderDiagnostic, suggest} from '../src/diagnostics';
+import {fail} from './utils';
+
+function parse(input: string): Parser {
+    const parser = new Parser(new Lexer(input))
+    parser.parseProgram()
+    return parser
+}
+
+function evalError(input: string): MError {
+    const evaluated = evaluate(new Parser(new Lexer(input)).parseProgram(), Environment.newEnvironment())
+    if (evaluated instanceof MError) {
+        return evaluated
+    }
+    return fail(`object is not a MError, got=${evaluated}`) as never
+}
+
+describe('diagnostics tests', () => {
+    test('parser diagnostics', () => {
+        const parser = parse('let x = (1 + 2')
+        const diagnostics = parser.diagnostics()
+        expect(diagnostics.length).toBe(1)
+        const diagnostic = diagnostics[0]
+        expect(diagnostic.code).toBe(ErrorCode.UNEXPECTED_TOKEN)
+        expect(diagnostic.span?.start.toString()).toBe('1:15')
+        expect(parser.errors()).toEqual(['Expected next token to be ), got EOF instead'])
+    })
+    test('render plain text', () => {
+        const input = 'let a = 1;\nlet b = a +* 2;'
+        const rendered = renderDiagnostic(parse(input).diagnostics()[0], input)
+        expect(rendered).toBe([
+            'error[P0001]: No prefix parser for * function',
+            ' --> 2:12',
+            '  |',
+            '2 | let b = a +* 2;',
+            '  |            ^',
+        ].join('\n'))
+    })
+    test('render ansi', () => {
+        const input = 'let a = 1 +* 2;'
+        const rendered = renderDiagnostic(parse(input).diagnostics()[0], input, true)
+        expect(rendered).toContain('\x1b[1m\x1b[31merror[P0001]\x1b[0m')
+        expect(rendered).toContain('\x1b[34m1 |\x1b[0m let a = 1 +* 2;')
+    })
+    test('runtime errors', () => {
+        const input = 'let value = 5;\nlet other = valeu + true;'
+        const error = evalError(input)
+        expect(error.code).toBe(ErrorCode.UNKNOWN_IDENTIFIER)
+        expect(error.suggestions).toEqual(['value'])
+        expect(renderDiagnostic(error.diagnostic(), input)).toBe([
+            'error[R0001]: identifier not found: valeu',
+            ' --> 2:13',
+            '  |',
+            '2 | let other = valeu + true;',
+            '  |             ^^^^^',
+            '  = help: did you mean `value`?',
+        ].join('\n'))
+
+        const mismatch = evalError('1 + "one"')
+        expect(mismatch.code).toBe(ErrorCode.TYPE_MISMATCH)
+        expect(mismatch.span?.toString()).toBe('1:1-1:10')
+    })
+    test('suggestions', () => {
+        expect(suggest('lne', ['len', 'last', 'rest'])).toEqual(['len'])
+        expect(suggest('pussh', ['push', 'first'])).toEqual(['push'])
+        expect(suggest('x', ['y', 'xs', 'x'])).toEqual(['xs', 'y'])
+        expect(suggest('completely', ['len', 'push'])).toEqual([])
+    })
+})
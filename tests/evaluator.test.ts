@@ -1,7 +1,9 @@
-import {MArray, MBoolean, MError, MFunction, MHash, MInteger, MObject, MString, typeDesc} from '../src/objects';
+import {MArray, MBoolean, MError, MFloat, MFunction, MHash, MInteger, MObject, MString, typeDesc} from '../src/objects';
 import {Lexer} from '../src/lexer';
 import {Parser} from '../src/parser';
-import {Environment, evaluate, FALSE, NULL, TRUE} from '../src/evaluator';
+import {Environment, evaluate, EvaluatorOptions, FALSE, NULL, TRUE} from '../src/evaluator';
+import {ErrorCode} from '../src/diagnostics';
+import {BufferSink, outputSink, setOutputSink} from '../src/output';
 import {fail} from './utils';
 
 class TestData<T> {
@@ -9,7 +11,7 @@ class TestData<T> {
     }
 }
 
-function testEval(input: string): MObject | null {
+function testEval(input: string, options: EvaluatorOptions = {}): MObject | null {
     const lexer = new Lexer(input)
     const parser = new Parser(lexer)
     const program = parser.parseProgram()
@@ -18,7 +20,7 @@ function testEval(input: string): MObject | null {
             console.log(error)
         })
     }
-    return evaluate(program, Environment.newEnvironment())
+    return evaluate(program, Environment.newEnvironment(options))
 }
 
 function testNumber(evaluated: MObject | null, expected: number) {
@@ -29,6 +31,14 @@ function testNumber(evaluated: MObject | null, expected: number) {
     }
 }
 
+function testFloat(evaluated: MObject | null, expected: number) {
+    if (evaluated instanceof MFloat) {
+        expect(evaluated.getValue()).toBeCloseTo(expected)
+    } else {
+        fail(`object is not MFloat, got=${typeDesc(evaluated)}, (${evaluated})`)
+    }
+}
+
 function testBoolean(evaluated: MObject | null, expected: boolean) {
     if (evaluated instanceof MBoolean) {
         expect(evaluated.getValue()).toBe(expected)
@@ -84,6 +94,69 @@ describe('evaluator tests', () => {
             ]
         )
     })
+    test('eval integer division and modulo', () => {
+        testInts([
+            new TestData('7 / 2', 3),
+            new TestData('-7 / 2', -3),
+            new TestData('7 % 3', 1),
+            new TestData('-7 % 3', -1),
+            new TestData('0xFF + 0b1', 256),
+        ])
+    })
+    test('eval big integers', () => {
+        [
+            new TestData('9007199254740993', '9007199254740993'),
+            new TestData('9007199254740991 + 2', '9007199254740993'),
+            new TestData('-9007199254740991 - 10', '-9007199254741001'),
+            new TestData('0xFFFF_FFFF_FFFF_FFFF', '18446744073709551615'),
+            new TestData('let f = fn(n) { if (n < 2) { 1 } else { n * f(n - 1) } }; f(25)', '15511210043330985984000000'),
+            new TestData('100000000000000000000 / 3', '33333333333333333333'),
+            new TestData('-100000000000000000000 % 7', '-2'),
+            new TestData('100000000000000000000 - 99999999999999999999', '1'),
+            new TestData('-(100000000000000000000)', '-100000000000000000000'),
+        ].forEach(({input, expected}) => {
+            const evaluated = testEval(input)
+            if (evaluated instanceof MInteger) {
+                expect(evaluated.getValue().toString()).toBe(expected)
+            } else {
+                fail(`object is not MInteger, got=${typeDesc(evaluated)}, (${evaluated})`)
+            }
+        });
+        [
+            new TestData('100000000000000000000 > 99999999999999999999', true),
+            new TestData('100000000000000000000 == 100000000000000000000', true),
+            new TestData('100000000000000000000 - 99999999999999999999 == 1', true),
+            new TestData('100000000000000000000 < 1.5', false),
+        ].forEach(({input, expected}) => {
+            testBoolean(testEval(input), expected)
+        })
+        testNumber(testEval('100000000000000000000 / 100000000000000000000'), 1)
+        testFloat(testEval('100000000000000000000 * 0.5'), 5e19)
+        expect(testEval('2 * 4611686018427387904')?.inspect()).toBe('9223372036854775808')
+    })
+    test('eval float expressions', () => {
+        [
+            new TestData('3.5', 3.5),
+            new TestData('-2.5', -2.5),
+            new TestData('1.5 + 1.5', 3.0),
+            new TestData('7 / 2.0', 3.5),
+            new TestData('2 * 0.25', 0.5),
+            new TestData('5.5 % 2', 1.5),
+            new TestData('1e3 - 1', 999),
+        ].forEach(({input, expected}) => {
+            testFloat(testEval(input), expected)
+        });
+        [
+            new TestData('1 == 1.0', true),
+            new TestData('1.5 > 1', true),
+            new TestData('2 < 1.5', false),
+            new TestData('0.1 + 0.2 != 0.3', true),
+        ].forEach(({input, expected}) => {
+            testBoolean(testEval(input), expected)
+        })
+        expect(testEval('3.0')?.inspect()).toBe('3.0')
+        expect(testEval('7 / 2.0')?.inspect()).toBe('3.5')
+    })
     test('eval boolean expression', () => {
         [
             new TestData('true', true),
@@ -105,11 +178,213 @@ describe('evaluator tests', () => {
             new TestData('(1 < 2) == false', false),
             new TestData('(1 > 2) == true', false),
             new TestData('(1 > 2) == false', true),
+            new TestData('1 <= 1', true),
+            new TestData('2 <= 1', false),
+            new TestData('1 >= 2', false),
+            new TestData('2 >= 2', true),
+            new TestData('1.5 >= 1', true),
+            new TestData('true && true', true),
+            new TestData('true && false', false),
+            new TestData('false || true', true),
+            new TestData('false || false', false),
+            new TestData('1 && "yes"', true),
+            new TestData('0 || false', true),
+            new TestData('if (false) { 1 } || false', false),
+            new TestData('1 < 2 && 2 < 3 || false', true),
         ].forEach(({input, expected}) => {
             const evaluated = testEval(input)
             testBoolean(evaluated, expected)
         })
     })
+    test('short-circuit evaluation', () => {
+        [
+            new TestData('false && missing', false),
+            new TestData('true || missing', true),
+            new TestData('let calls = fn(x) { x }; false && calls(1 / 0)', false),
+        ].forEach(({input, expected}) => {
+            testBoolean(testEval(input), expected)
+        })
+        const evaluated = testEval('true && missing')
+        if (evaluated instanceof MError) {
+            expect(evaluated.message).toBe('identifier not found: missing')
+        } else {
+            fail(`object is not MError, got=${typeDesc(evaluated)}`)
+        }
+    })
+    test('null and optional chaining', () => {
+        [
+            'null',
+            '[1][5]',
+            'let config = {"db": {}}; config["db"]?.["port"]?.["number"]',
+            'let f = null; f?.(missing)',
+            'let h = {}; h["missing"]?.[0]',
+        ].forEach(input => {
+            expect(testEval(input)).toBe(NULL)
+        })
+        testInts([
+            new TestData('null ?? 1', 1),
+            new TestData('2 ?? missing', 2),
+            new TestData('let config = {"db": {"port": 5432}}; config?.["db"]?.["port"] ?? 80', 5432),
+            new TestData('let config = {}; config?.["db"]?.["port"] ?? 80', 80),
+            new TestData('let f = fn(x) { x * 2 }; f?.(21)', 42),
+            new TestData('first([]) ?? 0', 0),
+            new TestData('match (null) { null => 1, _ => 2 }', 1),
+        ])
+        testBoolean(testEval('false ?? true'), false)
+        testBoolean(testEval('null == null'), true)
+        testBoolean(testEval('null == false'), false)
+        testBoolean(testEval('!null'), true)
+        testError(testEval('null[0]'), 'index operator not supported: MNull')
+        testError(testEval('let h = {}; h["a"]?.["b"]["c"]'), 'index operator not supported: MNull')
+        testError(testEval('null ?? missing'), 'identifier not found: missing')
+        testError(testEval('5?.[0]'), 'index operator not supported: MInteger')
+    })
+    test('field access and method calls', () => {
+        testInts([
+            new TestData('let user = {"age": 30}; user.age', 30),
+            new TestData('let config = {"db": {"port": 5432}}; config.db.port', 5432),
+            new TestData('[1, 2].push(3).len()', 3),
+            new TestData('"hello".len()', 5),
+            new TestData('let double = fn(x) { x * 2 }; 21.double()', 42),
+            new TestData('let add = fn(a, b) { a + b }; 1.add(2).add(3)', 6),
+            new TestData('let len = fn(x) { 7 }; [1].len()', 7),
+            new TestData('let counter = {"next": fn(n) { n + 1 }}; counter.next(1)', 2),
+            new TestData('let h = {}; h.count = 1; h.count += 2; h["count"]', 3),
+            new TestData('let h = {"len": 5}; h.len', 5),
+            new TestData('let size = fn(h) { 1 }; let h = {"a": 1}; h.size()', 1),
+        ])
+        expect(testEval('let h = {}; h.missing')).toBe(NULL)
+        expect(testEval('let h = null; h?.name')).toBe(NULL)
+        expect(testEval('let h = null; h?.name.first')).not.toBe(NULL)
+        expect(testEval('null?.len()')).toBe(NULL)
+        expect(testEval('let h = {}; h.missing?.()')).toBe(NULL)
+        testError(testEval('[1].name'), 'field access not supported: MArray')
+        testError(testEval('null.name'), 'field access not supported: MNull')
+        testError(testEval('[1].size()'), 'unknown method size for MArray')
+        testError(testEval('let h = {"f": 1}; h.f()'), 'not a function: MInteger')
+        testError(testEval('[1].x = 2'), 'index assignment not supported: MArray')
+        testError(testEval('missing.len()'), 'identifier not found: missing')
+    })
+    test('pipes, lambdas and partial application', () => {
+        const helpers = `
+            let map = fn(xs, f) { let out = []; for (x in xs) { out = out.push(f(x)) }; out };
+            let filter = fn(xs, f) { let out = []; for (x in xs) { if (f(x)) { out = out.push(x) } }; out };
+            let sum = fn(xs) { let total = 0; for (x in xs) { total += x }; total };
+            let add = fn(a, b) { a + b };
+        `
+        testInts([
+            new TestData('[1, 2, 3, 4] |> filter(|x| x % 2 == 0) |> map(x => x * 10) |> sum', 60),
+            new TestData('sum(map(filter([1, 2, 3, 4], |x| x % 2 == 0), |x| x * 10))', 60),
+            new TestData('1 + 2 |> add(3)', 6),
+            new TestData('5 |> |x| x * x', 25),
+            new TestData('let inc = add(1, _); inc(41)', 42),
+            new TestData('10 |> add(_, 2)', 12),
+            new TestData('[1, 2, 3] |> map(_, add(10, _)) |> sum', 36),
+            new TestData('add(_, _)(20, 22)', 42),
+            new TestData('[1].push(_)(2).len()', 2),
+            new TestData('(|| 42)()', 42),
+            new TestData('(|a, b = 2| a * b)(3)', 6),
+            new TestData('(|[a, b]| a - b)([5, 3])', 2),
+            new TestData('let k = 3; let adder = x => y => x + y + k; adder(1)(2)', 6),
+            new TestData('let f = |x| { let y = x * 2; y + 1 }; f(4)', 9),
+            new TestData('let calls = 0; let count = fn(x) { calls += 1; x }; let f = add(count(1), _); f(1) + f(1); calls', 1),
+            new TestData('[1, 2] |> len', 2),
+        ].map(({input, expected}) => new TestData(helpers + input, expected)))
+        testError(testEval(helpers + 'add(1, _)(1, 2)'), 'wrong number of arguments. got=2, want=1')
+        testError(testEval(helpers + 'add(missing, _)'), 'identifier not found: missing')
+        testError(testEval('1 |> 2'), 'not a function: MInteger')
+    })
+    test('ranges and lazy sequences', () => {
+        testInts([
+            new TestData('len(0..10)', 10),
+            new TestData('len(0..=10)', 11),
+            new TestData('len(0..10 step 3)', 4),
+            new TestData('len(0..1000000000000)', 1000000000000),
+            new TestData('(0..1000000000000)[999999999999]', 999999999999),
+            new TestData('(10..0 step -2)[-1]', 2),
+            new TestData('let n = 0; for (i in 1..=100) { n += i }; n', 5050),
+            new TestData('let n = 0; for (i in 0..1000000000000) { if (i == 3) { break }; n += i }; n', 3),
+            new TestData('len(collect(drop(0..100, 90)))', 10),
+            new TestData('sum(collect(take(drop(1..1000000000000, 1), 3)))', 9),
+            new TestData('len([...0..5])', 5),
+            new TestData('let n = 0; for (pair in zip("abc", 1..10)) { n += pair[1] }; n', 6),
+            new TestData('let [i, x] = collect(enumerate(["a", "b"]))[1]; i', 1),
+            new TestData('0..5 |> take(_, 2) |> collect |> len', 2),
+            new TestData('len(collect({"a": 1, "b": 2}))', 2),
+        ].map(({input, expected}) => {
+            return new TestData(`let sum = fn(xs) { let t = 0; for (x in xs) { t += x }; t }; ${input}`, expected)
+        }))
+        expect(testEval('(0..3)[3]')).toBe(NULL)
+        testString(testEval('"${0..3} ${0..=9 step 3} ${take(0..3, 1)}"'), '0..3 0..=9 step 3 <iterator>');
+        [
+            new TestData('let it = take(0..10, 3); collect(it); len(collect(it))', 0),
+            new TestData('let it = enumerate("ab"); for (x in it) { }; len(collect(it))', 0),
+        ].forEach(({input, expected}) => {
+            testNumber(testEval(input), expected)
+        })
+        testBoolean(testEval('let s = "a😀"; len(s) == len(collect(s)) && collect(s)[1] == s[1]'), true)
+        testBoolean(testEval('let s = "a😀"; let n = 0; for (ch in s) { n += 1 }; n == len(s) && len([...s]) == len(s)'), true)
+        testBoolean(testEval('1..=3 == 1..4'), true)
+        testBoolean(testEval('0..3 == 0..4'), false);
+        [
+            new TestData('0..1 step 0', "range step can't be 0"),
+            new TestData('0.."a"', 'range bounds must be MInteger, got MString'),
+            new TestData('0..1.5', 'range bounds must be MInteger, got MFloat'),
+            new TestData('len(1..=9007199254740993)', 'range bounds must be between -9007199254740991 and 9007199254740991, got 9007199254740993'),
+            new TestData('0..10 step 9007199254740991 * 2', 'range bounds must be between -9007199254740991 and 9007199254740991, got 18014398509481982'),
+            new TestData('take(1, 2)', "argument to 'take' must be iterable, got MInteger"),
+            new TestData('drop([1], "a")', "second argument to 'drop' must be INTEGER, got MString"),
+            new TestData('zip([1], 2)', "argument to 'zip' must be iterable, got MInteger"),
+            new TestData('collect()', 'wrong number of arguments. got=0, want=1'),
+            new TestData('len(take([1], 1))', "argument to 'len' not supported, got MIterator"),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+    })
+    test('structural equality and ordering', () => {
+        [
+            new TestData('"a" == "a"', true),
+            new TestData('"a" != "a"', false),
+            new TestData('"a" == "b"', false),
+            new TestData('let s = "mon"; s + "key" == "monkey"', true),
+            new TestData('[1, 2] == [1, 2]', true),
+            new TestData('[1, 2] == [1, 2, 3]', false),
+            new TestData('[1, [2, "x"]] == [1, [2, "x"]]', true),
+            new TestData('[1] == [1.0]', true),
+            new TestData('[1] == ["1"]', false),
+            new TestData('{"a": 1, "b": [2]} == {"b": [2], "a": 1}', true),
+            new TestData('{"a": 1} == {"a": 2}', false),
+            new TestData('{"a": 1} != {"b": 1}', true),
+            new TestData('[] == {}', false),
+            new TestData('"1" == 1', false),
+            new TestData('"apple" < "banana"', true),
+            new TestData('"apple" > "app"', true),
+            new TestData('"b" <= "a"', false),
+            new TestData('"b" >= "b"', true),
+            new TestData('[1, 2] < [1, 3]', true),
+            new TestData('[1, 2] < [1, 2, 0]', true),
+            new TestData('[2] > [1, 5]', true),
+            new TestData('[1, "b"] >= [1, "a"]', true),
+            new TestData('[] <= []', true),
+            new TestData('let a = [1]; push(a, a); a == a', true),
+            new TestData('let a = [1]; let b = [1]; push(a, a); push(b, b); a == b', true),
+        ].forEach(({input, expected}) => {
+            testBoolean(testEval(input), expected)
+        });
+        [
+            new TestData('"a" < 1', 'type mismatch: MString < MInteger'),
+            new TestData('{} < {}', 'unknown operator: MHash < MHash'),
+            new TestData('true < false', 'unknown operator: MBoolean < MBoolean'),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+        const unordered = testEval('[1, "a"] < [1, 2]')
+        if (unordered instanceof MError) {
+            expect(unordered.code).toBe(ErrorCode.TYPE_MISMATCH)
+        } else {
+            fail(`object is not MError, got=${typeDesc(unordered)}`)
+        }
+    })
     test('bang operator', () => {
         [
             new TestData('!true', false),
@@ -213,6 +488,11 @@ describe('evaluator tests', () => {
                 'foobar',
                 'identifier not found: foobar',
             ),
+            new TestData('1 / 0', 'division by zero'),
+            new TestData('1 % 0', 'division by zero'),
+            new TestData('1.5 / 0', 'division by zero'),
+            new TestData('1 / 0.0', 'division by zero'),
+            new TestData('1.5 + true', 'type mismatch: MFloat + MBoolean'),
             new TestData(
                 `"Hello" - "World"`,
                 'unknown operator: MString - MString'
@@ -220,13 +500,114 @@ describe('evaluator tests', () => {
             new TestData(
                 `{"name": "Monkey"}[fn(x) {x}];`,
                 'unusable as a hash key: MFunction'
-            )
+            ),
         ].forEach(({input, expected}) => {
             //console.log(input)
             const evaluated = testEval(input)
             testError(evaluated, expected);
         })
     })
+    test('syntax errors', () => {
+        ['(@', '[@', 'f(@', '{@: 1', 'let x = (@'].forEach(input => {
+            const parser = new Parser(new Lexer(input))
+            const program = parser.parseProgram()
+            expect(parser.errors()).toEqual(["illegal character '@'"])
+            expect(parser.diagnostics()[0].span?.start.offset).toBe(input.indexOf('@'))
+            testError(evaluate(program, Environment.newEnvironment()), "syntax error: illegal character '@'")
+        })
+    })
+    test('while loops', () => {
+        testInts([
+            new TestData('let i = 0; while (i < 5) { let i = i + 1 }; i', 5),
+            new TestData('let i = 0; while (true) { let i = i + 1; if (i == 3) { break } }; i', 3),
+            new TestData('let i = 0; let odd = 0; while (i < 10) { let i = i + 1; if (i % 2 == 0) { continue } let odd = odd + 1 }; odd', 5),
+            new TestData('let i = 0; while (i < 100000) { let i = i + 1 }; i', 100000),
+            new TestData('let f = fn() { let i = 0; while (true) { let i = i + 1; if (i > 7) { return i * 2 } } }; f()', 16),
+        ])
+        expect(testEval('while (false) { 1 }')).toBe(NULL)
+        testError(testEval('while (missing) { 1 }'), 'identifier not found: missing')
+        testError(testEval('let i = 0; while (i < 3) { let i = i + 1; if (i == 2) { i + true } }'), 'type mismatch: MInteger + MBoolean')
+    })
+    test('for loops', () => {
+        testInts([
+            new TestData('let sum = 0; for (x in [1, 2, 3, 4]) { sum = sum + x }; sum', 10),
+            new TestData('let sum = 0; for (x in [1, 2, 3, 4]) { if (x == 3) { break } sum = sum + x }; sum', 3),
+            new TestData('let sum = 0; for (x in [1, 2, 3, 4]) { if (x % 2 == 1) { continue } sum = sum + x }; sum', 6),
+            new TestData('let n = 0; for (row in [[1, 2], [3]]) { for (x in row) { if (x == 2) { break } n = n + x } }; n', 4),
+            new TestData('let x = 10; for (x in [1, 2]) { }; x', 10),
+            new TestData('let fs = []; for (x in [1, 2, 3]) { fs = fs.push(fn() { x }) }; fs[0]() + fs[2]()', 4),
+            new TestData('let a = [1, 2]; for (x in a) { push(a, x) }; len(a)', 4),
+            new TestData('let find = fn(xs) { for (x in xs) { if (x > 1) { return x } } }; find([1, 5, 7])', 5),
+        ])
+        testString(testEval('let s = ""; for (ch in "abc") { s = ch + s }; s'), 'cba')
+        testString(testEval('let s = ""; for (k in {"a": 1, "b": 2}) { s = s + k }; s'), 'ab')
+        expect(testEval('for (x in []) { x }')).toBe(NULL)
+        testError(testEval('for (x in 5) { x }'), 'not iterable: MInteger')
+    })
+    test('assignment', () => {
+        testInts([
+            new TestData('let x = 1; x = 2; x', 2),
+            new TestData('let x = 1; x = x + 1', 2),
+            new TestData('let a = 1; let b = 2; a = b = 3; a + b', 6),
+            new TestData('let count = 0; let inc = fn() { count = count + 1 }; inc(); inc(); count', 2),
+            new TestData('let count = 0; let shadow = fn() { let count = 5; count = 6 }; shadow(); count', 0),
+            new TestData('let i = 0; let sum = 0; while (i < 5) { i += 1; sum += i }; sum', 15),
+            new TestData('let x = 10; x -= 3; x *= 4; x /= 2; x %= 8; x', 6),
+            new TestData('let make = fn() { let n = 0; fn() { n += 1 } }; let next = make(); next(); next()', 2),
+        ])
+        testFloat(testEval('let x = 1; x /= 2.0; x'), 0.5)
+        testString(testEval('let s = "a"; s += "b"; s'), 'ab')
+        testError(testEval('missing = 1'), 'cannot assign to undeclared identifier: missing')
+        testError(testEval('let x = 1; x += true'), 'type mismatch: MInteger + MBoolean')
+        testError(testEval('let x = 1; x /= 0'), 'division by zero')
+        const typo = testEval('let total = 1; totl = 2')
+        if (typo instanceof MError) {
+            expect(typo.suggestions).toEqual(['total'])
+        } else {
+            fail(`object is not MError, got=${typeDesc(typo)}`)
+        }
+    })
+    test('index assignment', () => {
+        testInts([
+            new TestData('let a = [1, 2, 3]; a[1] = 5; a[1]', 5),
+            new TestData('let a = [1, 2, 3]; a[2] += 10; a[2]', 13),
+            new TestData('let a = [1, 2, 3]; a[0] = 7', 7),
+            new TestData('let h = {"a": 1}; h["a"] = 2; h["a"]', 2),
+            new TestData('let h = {}; h["b"] = 3; h[true] = 4; h["b"] + h[true]', 7),
+            new TestData('let h = {"n": 1}; h["n"] *= 5; h["n"]', 5),
+            new TestData('let a = [{"x": 0}]; a[0]["x"] = 1; a[0]["x"]', 1),
+            new TestData('let g = [[1, 2], [3, 4]]; g[1][0] = 9; g[1][0] + g[0][1]', 11),
+            new TestData('let a = [0]; let alias = a; alias[0] = 4; a[0]', 4),
+            new TestData('let h = {}; let set = fn(k, v) { h[k] = v }; set("x", 1); set("y", 2); h["x"] + h["y"]', 3),
+            new TestData('let i = 0; let a = [10, 20]; let next = fn() { i += 1; i - 1 }; a[next()] += 1; a[0] * 10 + i', 111),
+        ])
+        testString(testEval('let a = ["x"]; a[0] += "y"; a[0]'), 'xy');
+        testInts([new TestData('let a = [1, 2]; a[-1] = 5; a[1]', 5)]);
+        [
+            new TestData('let a = [1]; a[1] = 2', 'index out of bounds: 1 for length 1'),
+            new TestData('let a = [1]; a[-2] = 2', 'index out of bounds: -2 for length 1'),
+            new TestData('let h = {}; h[fn(x) { x }] = 1', 'unusable as a hash key: MFunction'),
+            new TestData('let s = "abc"; s[0] = "x"', 'index assignment not supported: MString'),
+            new TestData('let h = {}; h["missing"] += 1', 'type mismatch: MNull + MInteger'),
+            new TestData('let a = [1]; a[missing] = 1', 'identifier not found: missing'),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+        expect((testEval('let a = []; a[0] = 1') as MError).code).toBe(ErrorCode.INDEX_OUT_OF_BOUNDS)
+    })
+    test('const bindings', () => {
+        testInts([
+            new TestData('const x = 5; x', 5),
+            new TestData('const x = 5; let f = fn() { let x = 1; x = 2; x }; f() + x', 7),
+            new TestData('const x = 5; for (x in [1, 2]) { x }; x', 5),
+        ])
+        testError(testEval('const x = 5; x = 6'), 'cannot assign to constant x')
+        testError(testEval('const x = 5; x += 1'), 'cannot assign to constant x')
+        testError(testEval('const x = 5; let f = fn() { x = 1 }; f()'), 'cannot assign to constant x')
+        testError(testEval('const x = 5; let x = 6'), 'cannot redeclare constant x')
+        const evaluated = testEval('const x = 5; x = 6')
+        expect((evaluated as MError).code).toBe(ErrorCode.CONSTANT_REASSIGNMENT)
+    })
     test('let statement', () => {
         testInts([
             new TestData('let a = 5; a;', 5),
@@ -254,6 +635,109 @@ describe('evaluator tests', () => {
             new TestData('fn(x) { x; }(5)', 5),
         ])
     })
+    test('function arity, defaults and rest parameters', () => {
+        testInts([
+            new TestData('let f = fn(x, y = 10) { x + y }; f(1)', 11),
+            new TestData('let f = fn(x, y = 10) { x + y }; f(1, 2)', 3),
+            new TestData('let f = fn(x, y = x * 3) { x + y }; f(2)', 8),
+            new TestData('let base = 100; let f = fn(x = base) { x }; let base = 5; f()', 5),
+            new TestData('let count = fn(...xs) { len(xs) }; count()', 0),
+            new TestData('let count = fn(...xs) { len(xs) }; count(1, 2, 3)', 3),
+            new TestData('let f = fn(first, ...rest) { first + len(rest) }; f(10, "a", "b")', 12),
+            new TestData('let f = fn(a, b = 1, ...rest) { a + b + len(rest) }; f(5)', 6),
+            new TestData('let f = fn(a, b = 1, ...rest) { a + b + len(rest) }; f(5, 5, 5, 5)', 12),
+        ])
+        const rest = testEval('let f = fn(a, ...rest) { rest }; f(1, 2, 3)')
+        expect(rest?.inspect()).toBe('[2, 3]');
+        [
+            new TestData('fn(x) { x }()', 'wrong number of arguments. got=0, want=1'),
+            new TestData('fn(x, y) { x }(1, 2, 3)', 'wrong number of arguments. got=3, want=2'),
+            new TestData('fn(x, y = 1) { x }()', 'wrong number of arguments. got=0, want=1 to 2'),
+            new TestData('fn(x, y = 1) { x }(1, 2, 3)', 'wrong number of arguments. got=3, want=1 to 2'),
+            new TestData('fn(x, ...ys) { x }()', 'wrong number of arguments. got=0, want=at least 1'),
+            new TestData('fn(x = missing) { x }()', 'identifier not found: missing'),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+    })
+    test('destructuring', () => {
+        testInts([
+            new TestData('let [a, b] = [1, 2]; a * 10 + b', 12),
+            new TestData('let [a, [b, c]] = [1, [2, 3]]; a + b + c', 6),
+            new TestData('let [head, ...tail] = [1, 2, 3]; head + len(tail)', 3),
+            new TestData('let [x, ...none] = [1]; len(none)', 0),
+            new TestData('let {"name": n, "age": a} = {"name": "Ann", "age": 30, "extra": 1}; a + len(n)', 33),
+            new TestData('let key = "k"; let {key: v} = {"k": 4}; v', 4),
+            new TestData('let {"point": [x, y]} = {"point": [3, 4]}; x * y', 12),
+            new TestData('let divmod = fn(a, b) { [a / b, a % b] }; let [q, r] = divmod(17, 5); q * 10 + r', 32),
+            new TestData('let sum = fn([a, b]) { a + b }; sum([20, 22])', 42),
+            new TestData('let get = fn({"x": x}, [y] = [1]) { x + y }; get({"x": 2})', 3),
+            new TestData('let f = fn(...[a, b]) { a - b }; f(5, 3)', 2),
+        ])
+        testError(testEval('const [a] = [1]; a = 2'), 'cannot assign to constant a');
+        [
+            new TestData('let [a, b] = [1]', 'array pattern [a, b] expects 2 elements, got 1'),
+            new TestData('let [a] = [1, 2]', 'array pattern [a] expects 1 elements, got 2'),
+            new TestData('let [a, b, ...c] = [1]', 'array pattern [a, b, ...c] expects at least 2 elements, got 1'),
+            new TestData('let [a] = 1', 'cannot destructure MInteger with array pattern [a]'),
+            new TestData('let {"a": a} = [1]', 'cannot destructure MArray with hash pattern {"a": a}'),
+            new TestData('let {"a": a} = {"b": 1}', 'missing key "a" for hash pattern {"a": a}'),
+            new TestData('let {[1]: a} = {}', 'unusable as a hash key: MArray'),
+            new TestData('let f = fn([a]) { a }; f(1)', 'cannot destructure MInteger with array pattern [a]'),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+        expect((testEval('let [a] = []') as MError).code).toBe(ErrorCode.PATTERN_MISMATCH)
+    })
+    test('match expressions', () => {
+        const describe = `let describe = fn(x) {
+            match (x) {
+                0 => "zero",
+                -1 => "minus one",
+                1.5 => "one and a half",
+                "hi" => "greeting",
+                true => "yes",
+                [] => "empty",
+                [0, y] => "starts with zero then \${y}",
+                [a, ...rest] if len(rest) > 1 => "long",
+                [a, b] => "pair",
+                {"kind": "circle", "r": r} => "circle \${r}",
+                n if n == 1000 => "thousand",
+                _ => "other",
+            }
+        };`;
+        [
+            new TestData('describe(0)', 'zero'),
+            new TestData('describe(-1)', 'minus one'),
+            new TestData('describe(1.5)', 'one and a half'),
+            new TestData('describe("hi")', 'greeting'),
+            new TestData('describe(true)', 'yes'),
+            new TestData('describe([])', 'empty'),
+            new TestData('describe([0, 7])', 'starts with zero then 7'),
+            new TestData('describe([1, 2, 3])', 'long'),
+            new TestData('describe([1, 2])', 'pair'),
+            new TestData('describe({"kind": "circle", "r": 2})', 'circle 2'),
+            new TestData('describe(1000)', 'thousand'),
+            new TestData('describe(false)', 'other'),
+            new TestData('describe([1])', 'other'),
+        ].forEach(({input, expected}) => {
+            testString(testEval(describe + input), expected)
+        })
+        testInts([
+            new TestData('match (2 + 3) { x => x * 2 }', 10),
+            new TestData('let x = 1; match ([5]) { [x] => x }; x', 1),
+            new TestData('let n = 0; match (1) { 1 => n = 5 }; n', 5),
+            new TestData('let fib = fn(n) { match (n) { 0 => 0, 1 => 1, _ => fib(n - 1) + fib(n - 2) } }; fib(10)', 55),
+            new TestData('match (1) { 1.0 => 2, _ => 3 }', 2),
+        ])
+        expect(testEval('match (3) { 1 => 1, 2 => 2 }')).toBe(NULL)
+        const error = testEval('match ([3]) { [1] => 1 }', {strictMatch: true}) as MError
+        testError(error, 'no match arm for [3]')
+        expect(error.code).toBe(ErrorCode.NO_MATCH)
+        testError(testEval('match (1) { x if x + true => 1 }'), 'type mismatch: MInteger + MBoolean')
+        testError(testEval('match (missing) { _ => 1 }'), 'identifier not found: missing')
+        testError(testEval('match ({}) { {[1]: a} => a }'), 'unusable as a hash key: MArray')
+    })
     test('enclosing environments', () => {
         const input = `let first = 10;
                   let second = 10;
@@ -276,6 +760,18 @@ describe('evaluator tests', () => {
         const input = `"Hello" + " " + "World!"`
         testString(testEval(input), 'Hello World!')
     })
+    test('string escapes and interpolation', () => {
+        [
+            new TestData('"tab\\there"', 'tab\there'),
+            new TestData('`raw\\n`', 'raw\\n'),
+            new TestData('let name = "Monkey"; "hello ${name}!"', 'hello Monkey!'),
+            new TestData('let a = 2; "${a} * ${a} = ${a * a}"', '2 * 2 = 4'),
+            new TestData('"${-1} ${true} ${"nested ${1 + 1}"}"', '-1 true nested 2'),
+        ].forEach(({input, expected}) => {
+            testString(testEval(input), expected)
+        })
+        testError(testEval('"${missing}"'), 'identifier not found: missing')
+    })
     test('builtin functions', () => {
         [
             new TestData(`len("")`, 0),
@@ -317,6 +813,24 @@ describe('evaluator tests', () => {
             }
         })
     })
+    test('output builtins', () => {
+        const sink = new BufferSink()
+        const previous = setOutputSink(sink)
+        try {
+            expect(testEval('puts("hello", 1, [1, "two"]); puts()')).toBe(NULL)
+            expect(sink.out).toBe('hello\n1\n[1, "two"]\n')
+            sink.clear()
+            testEval('print("a", 2.5, {"k": true}); print("!")')
+            expect(sink.out).toBe('a 2.5 {"k": true}!')
+            sink.clear()
+            testEval('let name = "monkey"; eprint("warning: ${name}\n"); puts("done")')
+            expect(sink.err).toBe('warning: monkey\n')
+            expect(sink.out).toBe('done\n')
+        } finally {
+            setOutputSink(previous)
+        }
+        expect(outputSink()).toBe(previous)
+    })
     test('array literal', () => {
         const input = '[1, 2 * 2, 3 + 3]'
         const evaluated = testEval(input)
@@ -366,6 +880,14 @@ describe('evaluator tests', () => {
             ),
             new TestData(
                 '[1, 2, 3][-1]',
+                3,
+            ),
+            new TestData(
+                '[1, 2, 3][-3]',
+                1,
+            ),
+            new TestData(
+                '[1, 2, 3][-4]',
                 null,
             )
         ].forEach(({input, expected}) => {
@@ -377,6 +899,63 @@ describe('evaluator tests', () => {
             }
         })
     })
+    test('string indexing and slices', () => {
+        [
+            new TestData('"abc"[0]', 'a'),
+            new TestData('"abc"[-1]', 'c'),
+            new TestData('"hello"[1:3]', 'el'),
+            new TestData('"hello"[:2]', 'he'),
+            new TestData('"hello"[3:]', 'lo'),
+            new TestData('"hello"[:]', 'hello'),
+            new TestData('"hello"[-3:-1]', 'll'),
+            new TestData('"hello"[4:1]', ''),
+            new TestData('"hello"[-10:10]', 'hello'),
+            new TestData('"hello"[null:2]', 'he'),
+        ].forEach(({input, expected}) => {
+            testString(testEval(input), expected)
+        })
+        expect(testEval('"abc"[3]')).toBe(NULL)
+        const slices: Array<[string, number[]]> = [
+            ['[1, 2, 3, 4][1:3]', [2, 3]],
+            ['[1, 2, 3, 4][:-1]', [1, 2, 3]],
+            ['[1, 2, 3, 4][-2:]', [3, 4]],
+            ['[1, 2, 3, 4][5:]', []],
+            ['let a = [1, 2]; let b = a[:]; push(b, 3); a', [1, 2]],
+            ['let n = 1; [1, 2, 3][n:n + 1]', [2]],
+        ]
+        slices.forEach(([input, expected]) => {
+            const evaluated = testEval(input) as MArray
+            expect(evaluated).toBeInstanceOf(MArray)
+            expect(evaluated.elements.map(element => (element as MInteger).getValue())).toEqual(expected)
+        });
+        [
+            new TestData('[1][0:"a"]', 'slice bounds must be MInteger, got MString'),
+            new TestData('{}[0:1]', 'slice operator not supported: MHash'),
+            new TestData('[1][missing:]', 'identifier not found: missing'),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+        expect(testEval('null?.[1:]')).toBe(NULL)
+    })
+    test('spread', () => {
+        testInts([
+            new TestData('let a = [2, 3]; let b = [1, ...a, 4]; len(b) * 10 + b[1]', 42),
+            new TestData('len([..."abc", ...[]])', 3),
+            new TestData('let add = fn(a, b, c) { a * 100 + b * 10 + c }; let args = [2, 3]; add(1, ...args)', 123),
+            new TestData('let f = fn(...xs) { len(xs) }; f(...[1, 2], ...[3])', 3),
+            new TestData('let h = {"a": 1, "b": 2}; let g = {...h, "b": 3, "c": 4}; g["a"] + g["b"] + g["c"]', 8),
+            new TestData('let h = {"a": 1}; let g = {"a": 0, ...h}; g["a"]', 1),
+            new TestData('len([...{"a": 1, "b": 2}])', 2),
+            new TestData('[1, 2].push(...[3]).len()', 3),
+        ]);
+        [
+            new TestData('[...1]', 'not iterable: MInteger'),
+            new TestData('len(...missing)', 'identifier not found: missing'),
+            new TestData('{...[1]}', 'cannot spread MArray into a hash'),
+        ].forEach(({input, expected}) => {
+            testError(testEval(input), expected)
+        })
+    })
     test('hash literals', () => {
         const input = `let two = "two";
                 	{
@@ -420,6 +999,12 @@ describe('evaluator tests', () => {
             new TestData('{5:5}[5]', 5),
             new TestData('{true:5}[true]', 5),
             new TestData('{false:5}[false]', 5),
+            new TestData('{1: 5}[1.0]', 5),
+            new TestData('{2.0: 5}[2]', 5),
+            new TestData('{9007199254740993: 5}[9007199254740992.0]', null),
+            new TestData('{1e20: 5}[100000000000000000000]', 5),
+            new TestData('{1: 5}[1.5]', null),
+            new TestData('let h = {1: 4}; h[1.0] = 5; len(collect(h)) + h[1]', 6),
         ].forEach(({input, expected}) => {
             const evaluated = testEval(input)
             if (expected === null) {
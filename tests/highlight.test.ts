@@ -0,0 +1,20 @@
+import {highlight} from '../src/highlight';
+
+describe('highlight tests', () => {
+    test('colors tokens', () => {
+        expect(highlight('let x = fn(a) { a + 1.5 }; // done')).toBe(
+            '\x1b[35mlet\x1b[0m x \x1b[36m=\x1b[0m \x1b[35mfn\x1b[0m(a) { a \x1b[36m+\x1b[0m \x1b[33m1.5\x1b[0m }; \x1b[90m// done\x1b[0m'
+        )
+        expect(highlight('if (true) { "a\\n${b}" }')).toBe(
+            '\x1b[35mif\x1b[0m (\x1b[33mtrue\x1b[0m) { \x1b[32m"a\\n${b}"\x1b[0m }'
+        )
+    })
+    test('illegal tokens', () => {
+        expect(highlight('1 # 2')).toBe('\x1b[33m1\x1b[0m \x1b[31m#\x1b[0m \x1b[33m2\x1b[0m')
+        expect(highlight('puts("still typing')).toBe('puts(\x1b[32m"still typing\x1b[0m')
+    })
+    test('keeps the text', () => {
+        const source = 'let  s = `raw\\n`;\n\t/* block */ [1, 2]\n'
+        expect(highlight(source).replace(/\x1b\[\d+m/g, '')).toBe(source)
+    })
+})
@@ -1,5 +1,7 @@
 import {Lexer} from '../src/lexer';
-import {TokenType} from '../src/token';
+import {TemplatePart, TemplateToken, TokenType} from '../src/token';
+import {ErrorCode} from '../src/diagnostics';
+import {fail} from './utils';
 
 describe('Lexer tests', () => {
     test('validate lexer', () => {
@@ -12,7 +14,7 @@ let add = fn(x, y) {
 }
 
 let result = add(five, ten);
-!-/*5;
+!-/ *5;
 5 < 10 > 5;
 
 if (5 < 10) {
@@ -124,4 +126,222 @@ if (5 < 10) {
             expect(token.literal).toBe(literal)
         })
     })
-})
\ No newline at end of file
+    test('token positions', () => {
+        const lexer = new Lexer(`let x = 5;
+  "a b" == x`)
+        const expected = [
+            [TokenType.LET, '1:1-1:4', 0],
+            [TokenType.IDENT, '1:5-1:6', 4],
+            [TokenType.ASSIGN, '1:7-1:8', 6],
+            [TokenType.INT, '1:9-1:10', 8],
+            [TokenType.SEMICOLON, '1:10-1:11', 9],
+            [TokenType.STRING, '2:3-2:8', 13],
+            [TokenType.EQ, '2:9-2:11', 19],
+            [TokenType.IDENT, '2:12-2:13', 22],
+            [TokenType.EOF, '2:13-2:13', 23],
+        ]
+
+        expected.forEach(([tokenType, span, offset]) => {
+            const token = lexer.nextToken();
+            expect(token.tokenType).toBe(tokenType)
+            expect(token.span.toString()).toBe(span)
+            expect(token.span.start.offset).toBe(offset)
+        })
+    })
+    test('comments', () => {
+        const code = `// leading comment
+let a = 1; // trailing
+/* block /* nested */ still comment */ a / 2;
+/**/`
+        const expected = [
+            [TokenType.LET, 'let'],
+            [TokenType.IDENT, 'a'],
+            [TokenType.ASSIGN, '='],
+            [TokenType.INT, '1'],
+            [TokenType.SEMICOLON, ';'],
+            [TokenType.IDENT, 'a'],
+            [TokenType.SLASH, '/'],
+            [TokenType.INT, '2'],
+            [TokenType.SEMICOLON, ';'],
+            [TokenType.EOF, ''],
+        ]
+        const lexer = new Lexer(code)
+        expected.forEach(([tokenType, literal]) => {
+            const token = lexer.nextToken();
+            expect(token.tokenType).toBe(tokenType)
+            expect(token.literal).toBe(literal)
+        })
+        expect(lexer.diagnostics().length).toBe(0)
+    })
+    test('comment tokens', () => {
+        const lexer = new Lexer('a // one\n/* two /* three */ */ b', {comments: true})
+        const expected = [
+            [TokenType.IDENT, 'a', '1:1-1:2'],
+            [TokenType.COMMENT, '// one', '1:3-1:9'],
+            [TokenType.COMMENT, '/* two /* three */ */', '2:1-2:22'],
+            [TokenType.IDENT, 'b', '2:23-2:24'],
+            [TokenType.EOF, '', '2:24-2:24'],
+        ]
+        expected.forEach(([tokenType, literal, span]) => {
+            const token = lexer.nextToken();
+            expect(token.tokenType).toBe(tokenType)
+            expect(token.literal).toBe(literal)
+            expect(token.span.toString()).toBe(span)
+        })
+    })
+    test('logical and comparison operators', () => {
+        const lexer = new Lexer('a <= b >= c && d || e < f > g')
+        const expected: Array<[TokenType, string]> = [
+            [TokenType.IDENT, 'a'], [TokenType.LT_EQ, '<='], [TokenType.IDENT, 'b'], [TokenType.GT_EQ, '>='],
+            [TokenType.IDENT, 'c'], [TokenType.AND, '&&'], [TokenType.IDENT, 'd'], [TokenType.OR, '||'],
+            [TokenType.IDENT, 'e'], [TokenType.LT, '<'], [TokenType.IDENT, 'f'], [TokenType.GT, '>'],
+            [TokenType.IDENT, 'g'], [TokenType.EOF, ''],
+        ]
+        expected.forEach(([tokenType, literal]) => {
+            const token = lexer.nextToken()
+            expect(token.tokenType).toBe(tokenType)
+            expect(token.literal).toBe(literal)
+        })
+        const single = new Lexer('a & b | c')
+        const tokens = [1, 2, 3, 4, 5].map(() => single.nextToken().tokenType)
+        expect(tokens).toEqual([TokenType.IDENT, TokenType.ILLEGAL, TokenType.IDENT, TokenType.BAR, TokenType.IDENT])
+        expect(single.diagnostics().map(d => d.message)).toEqual(["illegal character '&'"])
+    })
+    test('assignment operators', () => {
+        const lexer = new Lexer('const a = 1; a += 2 -= 3 *= 4 /= 5 %= 6 + -')
+        const expected = [
+            TokenType.CONST, TokenType.IDENT, TokenType.ASSIGN, TokenType.INT, TokenType.SEMICOLON,
+            TokenType.IDENT, TokenType.PLUS_ASSIGN, TokenType.INT, TokenType.MINUS_ASSIGN, TokenType.INT,
+            TokenType.ASTERISK_ASSIGN, TokenType.INT, TokenType.SLASH_ASSIGN, TokenType.INT, TokenType.PERCENT_ASSIGN,
+            TokenType.INT, TokenType.PLUS, TokenType.MINUS, TokenType.EOF,
+        ]
+        expect(expected.map(() => lexer.nextToken().tokenType)).toEqual(expected)
+    })
+    test('ellipsis', () => {
+        const lexer = new Lexer('fn(...rest) .. .')
+        const expected = [
+            TokenType.FUNCTION, TokenType.LPAREN, TokenType.ELLIPSIS, TokenType.IDENT, TokenType.RPAREN,
+            TokenType.RANGE, TokenType.DOT, TokenType.EOF,
+        ]
+        expect(expected.map(() => lexer.nextToken().tokenType)).toEqual(expected)
+    })
+    test('match arrows', () => {
+        const lexer = new Lexer('match (x) { _ => x == 1 }')
+        const expected = [
+            TokenType.MATCH, TokenType.LPAREN, TokenType.IDENT, TokenType.RPAREN, TokenType.LBRACE, TokenType.IDENT,
+            TokenType.ARROW, TokenType.IDENT, TokenType.EQ, TokenType.INT, TokenType.RBRACE, TokenType.EOF,
+        ]
+        expect(expected.map(() => lexer.nextToken().tokenType)).toEqual(expected)
+    })
+    test('ranges', () => {
+        const lexer = new Lexer('0..n 1..=10 step 2 a.b 1.5')
+        const expected = [
+            [TokenType.INT, '0'], [TokenType.RANGE, '..'], [TokenType.IDENT, 'n'],
+            [TokenType.INT, '1'], [TokenType.RANGE_INCLUSIVE, '..='], [TokenType.INT, '10'],
+            [TokenType.IDENT, 'step'], [TokenType.INT, '2'],
+            [TokenType.IDENT, 'a'], [TokenType.DOT, '.'], [TokenType.IDENT, 'b'],
+            [TokenType.FLOAT, '1.5'], [TokenType.EOF, ''],
+        ]
+        expected.forEach(([tokenType, literal]) => {
+            const token = lexer.nextToken()
+            expect(token.tokenType).toBe(tokenType)
+            expect(token.literal).toBe(literal)
+        })
+    })
+    test('pipes and lambdas', () => {
+        const lexer = new Lexer('xs |> map(|x| x) || y')
+        const expected = [
+            TokenType.IDENT, TokenType.PIPE, TokenType.IDENT, TokenType.LPAREN, TokenType.BAR, TokenType.IDENT,
+            TokenType.BAR, TokenType.IDENT, TokenType.RPAREN, TokenType.OR, TokenType.IDENT, TokenType.EOF,
+        ]
+        expect(expected.map(() => lexer.nextToken().tokenType)).toEqual(expected)
+    })
+    test('null operators', () => {
+        const lexer = new Lexer('a ?? null; b?.[0]?.(1) ? c')
+        const expected = [
+            TokenType.IDENT, TokenType.NULLISH, TokenType.NULL, TokenType.SEMICOLON, TokenType.IDENT, TokenType.OPTIONAL,
+            TokenType.LBRACKET, TokenType.INT, TokenType.RBRACKET, TokenType.OPTIONAL, TokenType.LPAREN, TokenType.INT,
+            TokenType.RPAREN, TokenType.ILLEGAL, TokenType.IDENT, TokenType.EOF,
+        ]
+        expect(expected.map(() => lexer.nextToken().tokenType)).toEqual(expected)
+    })
+    test('lexer errors', () => {
+        const lexer = new Lexer('1 # 2\n/* open /* nested */')
+        const tokens = [lexer.nextToken(), lexer.nextToken(), lexer.nextToken(), lexer.nextToken()]
+        expect(tokens.map(token => token.tokenType)).toEqual([TokenType.INT, TokenType.ILLEGAL, TokenType.INT, TokenType.EOF])
+        const diagnostics = lexer.diagnostics()
+        expect(diagnostics.map(d => d.code)).toEqual([ErrorCode.ILLEGAL_CHARACTER, ErrorCode.UNTERMINATED_COMMENT])
+        expect(diagnostics[0].message).toBe("illegal character '#'")
+        expect(diagnostics[1].span?.toString()).toBe('2:1-2:21')
+    })
+    test('string escapes and raw strings', () => {
+        [
+            ['"a\\tb"', 'a\tb'],
+            ['"quote \\" and \\\\ backslash"', 'quote " and \\ backslash'],
+            ['"line\\nbreak"', 'line\nbreak'],
+            ['"\\u{48}\\u{1F600}"', 'H\u{1F600}'],
+            ['"\\${not interpolated}"', '${not interpolated}'],
+            ['`raw \\n ${x}\nsecond line`', 'raw \\n ${x}\nsecond line'],
+        ].forEach(([input, expected]) => {
+            const lexer = new Lexer(input)
+            const token = lexer.nextToken()
+            expect(token.tokenType).toBe(TokenType.STRING)
+            expect(token.literal).toBe(expected)
+            expect(lexer.nextToken().tokenType).toBe(TokenType.EOF)
+            expect(lexer.diagnostics().length).toBe(0)
+        })
+    })
+    test('string interpolation', () => {
+        const lexer = new Lexer('"hi ${name}, ${ {"a": "}"}["a"] }!"')
+        const token = lexer.nextToken()
+        if (token instanceof TemplateToken) {
+            expect(token.literal).toBe('hi ${name}, ${ {"a": "}"}["a"] }!')
+            expect(token.parts.length).toBe(5)
+            const [first, name, second, hash, last] = token.parts
+            expect([first, second, last]).toEqual(['hi ', ', ', '!'])
+            expect((name as TemplatePart).source).toBe('name')
+            expect((name as TemplatePart).start.toString()).toBe('1:7')
+            expect((hash as TemplatePart).source).toBe(' {"a": "}"}["a"] ')
+        } else {
+            fail(`token is not TemplateToken. got=${token}`)
+        }
+        expect(lexer.nextToken().tokenType).toBe(TokenType.EOF)
+    })
+    test('string errors', () => {
+        [
+            ['"unterminated', TokenType.ILLEGAL, ErrorCode.UNTERMINATED_STRING, 'unterminated string'],
+            ['`raw', TokenType.ILLEGAL, ErrorCode.UNTERMINATED_STRING, 'unterminated string'],
+            ['"open ${1 + "', TokenType.ILLEGAL, ErrorCode.UNTERMINATED_STRING, 'unterminated string'],
+            ['"bad \\q"', TokenType.STRING, ErrorCode.INVALID_ESCAPE, 'invalid escape sequence \\q'],
+            ['"\\u{110000}"', TokenType.STRING, ErrorCode.INVALID_ESCAPE, 'invalid unicode escape \\u{110000'],
+        ].forEach(([input, tokenType, code, message]) => {
+            const lexer = new Lexer(input)
+            expect(lexer.nextToken().tokenType).toBe(tokenType)
+            expect(lexer.diagnostics().map(d => [d.code, d.message])).toEqual([[code, message]])
+        })
+    })
+    test('number literals', () => {
+        const lexer = new Lexer('3.5 1e-3 2.5E+10 0xFF 0b101 0o17 1_000_000 7 % 2 1.foo')
+        const expected = [
+            [TokenType.FLOAT, '3.5'],
+            [TokenType.FLOAT, '1e-3'],
+            [TokenType.FLOAT, '2.5E+10'],
+            [TokenType.INT, '0xFF'],
+            [TokenType.INT, '0b101'],
+            [TokenType.INT, '0o17'],
+            [TokenType.INT, '1_000_000'],
+            [TokenType.INT, '7'],
+            [TokenType.PERCENT, '%'],
+            [TokenType.INT, '2'],
+            [TokenType.INT, '1'],
+            [TokenType.DOT, '.'],
+            [TokenType.IDENT, 'foo'],
+            [TokenType.EOF, ''],
+        ]
+        expected.forEach(([tokenType, literal]) => {
+            const token = lexer.nextToken();
+            expect(token.tokenType).toBe(tokenType)
+            expect(token.literal).toBe(literal)
+        })
+    })
+})
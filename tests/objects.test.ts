@@ -1,4 +1,4 @@
-import {MBoolean, MInteger, MString, MValue} from '../src/objects';
+import {equals, iterator, MArray, MBoolean, MInteger, MObject, MRange, MString, MValue} from '../src/objects';
 
 describe('object tests', () => {
     test('map and keys', () => {
@@ -14,5 +14,27 @@ describe('object tests', () => {
         expect(hash.get(new MBoolean(true).toString())).toBe(1)
         expect(hash.get(new MString('true').toString())).toBe(1)
     })
+    test('ranges', () => {
+        const values = (range: MRange) => [...range.values()].map(value => (value as MInteger).getValue())
+        expect(values(new MRange(0, 5, 1, false))).toEqual([0, 1, 2, 3, 4])
+        expect(values(new MRange(0, 5, 1, true))).toEqual([0, 1, 2, 3, 4, 5])
+        expect(values(new MRange(0, 10, 3, false))).toEqual([0, 3, 6, 9])
+        expect(values(new MRange(0, 9, 3, true))).toEqual([0, 3, 6, 9])
+        expect(values(new MRange(10, 0, -4, false))).toEqual([10, 6, 2])
+        expect(values(new MRange(10, 2, -4, true))).toEqual([10, 6, 2])
+        expect(values(new MRange(5, 0, 1, false))).toEqual([])
+        expect(new MRange(0, 1e12, 1, false).length).toBe(1e12)
+        expect(new MRange(0, 1e12, 1, false).at(123).getValue()).toBe(123)
+        expect(equals(new MRange(0, 9, 3, true), new MRange(0, 10, 3, false))).toBe(true)
+        expect(equals(new MRange(1, 1, 1, false), new MRange(5, 0, 2, false))).toBe(true)
+        expect(equals(new MRange(0, 3, 1, false), new MRange(0, 3, 1, true))).toBe(false)
+    })
+    test('iterators', () => {
+        const items = (obj: MObject) => [...iterator(obj)!!].map(value => value?.inspect())
+        expect(items(new MArray([new MInteger(1), new MString('a')]))).toEqual(['1', '"a"'])
+        expect(items(new MString('hé'))).toEqual(['"h"', '"é"'])
+        expect(items(new MRange(1, 3, 1, true))).toEqual(['1', '2', '3'])
+        expect(iterator(new MInteger(1))).toBeNull()
+    })
 
 })
\ No newline at end of file
@@ -1,14 +1,19 @@
 import {Lexer} from '../src/lexer';
 import {
     ArrayLiteral,
-    BooleanLiteral, CallExpression,
-    Expression, ExpressionStatement, FunctionLiteral, HashLiteral,
+    ArrayPattern,
+    AssignExpression,
+    BlockStatement, BooleanLiteral, BreakStatement, CallExpression, ContinueStatement, DestructuringLetStatement,
+    Expression, ExpressionStatement, FloatLiteral, ForStatement, FunctionLiteral, HashLiteral, HashPattern,
     Identifier, IfExpression, IndexExpression, InfixExpression,
-    IntegerLiteral,
-    LetStatement, PrefixExpression,
+    IntegerLiteral, InterpolatedString,
+    LetStatement,
+    LiteralPattern,
+    MatchExpression, PipeExpression, Placeholder, PrefixExpression,
     Program,
     ReturnStatement,
-    Statement, StringLiteral, StringValue
+    SpreadElement,
+    Statement, StringLiteral, StringValue, WhileStatement, WildcardPattern
 } from '../src/ast';
 import {Pair, Triple} from '../src/utils';
 import {Parser} from '../src/parser';
@@ -193,6 +198,41 @@ describe('parser tests', () => {
             testNumberLiteral(statement.expression, 5)
         })
     });
+    test('number literals', () => {
+        [
+            new Pair('0xFF', 255),
+            new Pair('0b101', 5),
+            new Pair('0o17', 15),
+            new Pair('1_000_000', 1000000),
+        ].forEach(({first: input, second: expected}) => {
+            checkExpressionStatement(createProgram(input).statements[0], (statement) => {
+                checkIntegerLiteral(statement.expression, (literal) => {
+                    expect(literal.value).toBe(expected)
+                })
+            })
+        });
+        [
+            new Pair('3.5', 3.5),
+            new Pair('1e-3', 0.001),
+            new Pair('1_000.25', 1000.25),
+        ].forEach(({first: input, second: expected}) => {
+            checkExpressionStatement(createProgram(input).statements[0], (statement) => {
+                const expression = statement.expression
+                if (expression instanceof FloatLiteral) {
+                    expect(expression.value).toBe(expected)
+                } else {
+                    fail(`value is not FloatLiteral. got=${expression}`)
+                }
+            })
+        })
+        const parser = new Parser(new Lexer('1__0; 0x; 2_;'))
+        parser.parseProgram()
+        expect(parser.errors()).toEqual([
+            'could not parse 1__0 as integer',
+            'could not parse 0x as integer',
+            'could not parse 2_ as integer',
+        ])
+    })
     test('parsing prefix expressions', () => {
         [
             new Triple('!5;', '!', 5),
@@ -224,8 +264,13 @@ describe('parser tests', () => {
             new TestData('5 - 5;', 5, '-', 5),
             new TestData('5 * 5;', 5, '*', 5),
             new TestData('5 / 5;', 5, '/', 5),
+            new TestData('5 % 5;', 5, '%', 5),
             new TestData('5 > 5;', 5, '>', 5),
             new TestData('5 < 5;', 5, '<', 5),
+            new TestData('5 >= 5;', 5, '>=', 5),
+            new TestData('5 <= 5;', 5, '<=', 5),
+            new TestData('true && false', true, '&&', false),
+            new TestData('true || false', true, '||', false),
             new TestData('5 == 5;', 5, '==', 5),
             new TestData('5 != 5;', 5, '!=', 5),
             new TestData('true == true', true, '==', true),
@@ -247,12 +292,54 @@ describe('parser tests', () => {
             ['a + b - c', '((a + b) - c)'],
             ['a * b * c', '((a * b) * c)'],
             ['a * b / c', '((a * b) / c)'],
+            ['a + b % c * d', '(a + ((b % c) * d))'],
             ['a + b / c', '(a + (b / c))'],
             ['a + b * c + d / e - f', '(((a + (b * c)) + (d / e)) - f)'],
             ['3 + 4; -5 * 5', '(3 + 4)((-5) * 5)'],
             ['5 > 4 == 3 < 4', '((5 > 4) == (3 < 4))'],
             ['5 < 4 != 3 > 4', '((5 < 4) != (3 > 4))'],
             ['3 + 4 * 5 == 3 * 1 + 4 * 5', '((3 + (4 * 5)) == ((3 * 1) + (4 * 5)))'],
+            ['a <= b == c >= d', '((a <= b) == (c >= d))'],
+            ['a || b && c', '(a || (b && c))'],
+            ['a && b || c && d', '((a && b) || (c && d))'],
+            ['a == b && c < d || !e', '(((a == b) && (c < d)) || (!e))'],
+            ['a || b || c', '((a || b) || c)'],
+            ['a ?? b || c', '(a ?? (b || c))'],
+            ['a ?? b ?? null', '((a ?? b) ?? null)'],
+            ['x = a ?? 1', '(x = (a ?? 1))'],
+            ['a?.[0]?.(1, 2)[3]', '((a?.[0])?.(1, 2)[3])'],
+            ['-a?.["b"] ?? c', '((-(a?.[b])) ?? c)'],
+            ['a.b.c', '((a.b).c)'],
+            ['a[1:2]', '(a[1:2])'],
+            ['xs |> f() |> g', '((xs |> f()) |> g)'],
+            ['0..n - 1', '(0..(n - 1))'],
+            ['a < 0..=b * 2 step s + 1', '(a < (0..=(b * 2) step (s + 1)))'],
+            ['0..10 |> collect', '((0..10) |> collect)'],
+            ['-1..1', '((-1)..1)'],
+            ['let step = 2; 0..step step step', 'let step = 2(0..step step step)'],
+            ['a + b |> f(c) == d', '(((a + b) |> f(c)) == d)'],
+            ['xs |> map(_, g)', '(xs |> map(_, g))'],
+            ['|x| x * 2', '|x| (x * 2)'],
+            ['|a, b = 1, ...c| a', '|a, b = 1, ...c| a'],
+            ['|| 1 + 2', '|| (1 + 2)'],
+            ['x => y => x + y', '|x| |y| (x + y)'],
+            ['map(xs, |x| x, 1)', 'map(xs, |x| x, 1)'],
+            ['|[a, b]| { a }', '|[a, b]| a'],
+            ['a || b', '(a || b)'],
+            ['a[:n - 1][0]', '((a[:(n - 1)])[0])'],
+            ['a[-2:]', '(a[(-2):])'],
+            ['a?.[:]', '(a?.[:])'],
+            ['f(...xs, y)', 'f(...xs, y)'],
+            ['[a, ...b + c]', '[a, ...(b + c)]'],
+            ['-a.b * c', '((-(a.b)) * c)'],
+            ['xs.push(1).len()', '((xs.push)(1).len)()'],
+            ['a?.b.c(d)', '((a?.b).c)(d)'],
+            ['1.5.floor() + 1.x', '((1.5.floor)() + (1.x))'],
+            ['h.a = h.b += 1', '((h.a) = ((h.b) += 1))'],
+            ['a = b = c', '(a = (b = c))'],
+            ['a += b * c || d', '(a += ((b * c) || d))'],
+            ['f(x = 1)', 'f((x = 1))'],
+            ['a[0]["x"] = b[1] += 2', '(((a[0])[x]) = ((b[1]) += 2))'],
             ['true', 'true'],
             ['false', 'false'],
             ['3 > 5 == false', '((3 > 5) == false)'],
@@ -360,6 +447,21 @@ describe('parser tests', () => {
             })
         })
     })
+    test('default and rest parameters', () => {
+        const program = createProgram('fn(a, b = a * 2, ...others) { a }')
+        checkExpressionStatement(program.statements[0], (statement) => {
+            checkFunctionLiteral(statement.expression, (fun) => {
+                const [a, b, others] = fun.parameters
+                expect(a.defaultValue).toBeNull()
+                expect(a.rest).toBe(false)
+                testInfixExpression<string | number>(b.defaultValue, 'a', '*', 2)
+                expect(others.value).toBe('others')
+                expect(others.rest).toBe(true)
+                expect(others.span.toString()).toBe('1:18-1:27')
+                expect(fun.parameters.join(', ')).toBe('a, b = (a * 2), ...others')
+            })
+        })
+    })
     test('call expression parsing', () => {
         const input = 'add(1, 2 * 3, 4+5)'
         const program = createProgram(input)
@@ -388,6 +490,26 @@ describe('parser tests', () => {
             })
         })
     })
+    test('interpolated string expression', () => {
+        const input = '"sum: ${a + b}, name: ${name}"'
+        const program = createProgram(input)
+        countStatements(1, program)
+        checkExpressionStatement(program.statements?.at(0), (statement) => {
+            const expression = statement.expression
+            if (expression instanceof InterpolatedString) {
+                expect(expression.parts.length).toBe(4)
+                checkStringLiteral(expression.parts[0], (literal) => {
+                    expect(literal.value).toBe('sum: ')
+                })
+                testInfixExpression(expression.parts[1], 'a', '+', 'b')
+                expect(expression.parts[1].span.toString()).toBe('1:9-1:14')
+                testIdentifier(expression.parts[3], 'name')
+                expect(expression.toString()).toBe('"sum: ${(a + b)}, name: ${name}"')
+            } else {
+                fail(`value is not InterpolatedString, got=${typeof expression}`)
+            }
+        })
+    })
     test('parsing array literal', () => {
         const input = '[1, 2 * 2, 3 + 3]'
         const program = createProgram(input)
@@ -437,4 +559,297 @@ describe('parser tests', () => {
             }
         })
     })
-})
\ No newline at end of file
+    test('lambdas and pipes', () => {
+        const program = createProgram('xs |> add(1)')
+        checkExpressionStatement(program.statements[0], (statement) => {
+            const pipe = statement.expression as PipeExpression
+            expect(pipe).toBeInstanceOf(PipeExpression)
+            expect(pipe.call.toString()).toBe('add(xs, 1)')
+        })
+        const partial = (createProgram('x |> add(1, _)').statements[0] as ExpressionStatement).expression as PipeExpression
+        expect(partial.call.toString()).toBe('add(1, _)(x)')
+        checkExpressionStatement(createProgram('|x, y| x').statements[0], (statement) => {
+            checkFunctionLiteral(statement.expression, (fun) => {
+                expect(fun.shorthand).toBe(true)
+                expect(fun.parameters.map(parameter => parameter.value)).toEqual(['x', 'y'])
+                expect(fun.body).toBeInstanceOf(BlockStatement)
+            })
+        })
+        checkExpressionStatement(createProgram('f(_, 1)').statements[0], (statement) => {
+            const call = statement.expression as CallExpression
+            expect(call.args[0]).toBeInstanceOf(Placeholder)
+            expect(call.partial).toBe(true)
+        })
+    })
+    test('hash literal spread', () => {
+        const program = createProgram('{...defaults, "a": 1}')
+        checkExpressionStatement(program.statements[0], (statement) => {
+            const [[first, value], [second]] = [...(statement.expression as HashLiteral).pairs]
+            expect(first).toBeInstanceOf(SpreadElement)
+            testIdentifier(value, 'defaults')
+            checkStringLiteral(second, (literal) => expect(literal.value).toBe('a'))
+        })
+    })
+    test('assignment expressions', () => {
+        [
+            ['x = 5;', '='],
+            ['x += 5;', '+='],
+            ['x -= 5;', '-='],
+            ['x *= 5;', '*='],
+            ['x /= 5;', '/='],
+            ['x %= 5;', '%='],
+        ].forEach(([input, operator]) => {
+            const program = createProgram(input)
+            countStatements(1, program)
+            checkExpressionStatement(program.statements[0], (statement) => {
+                const expression = statement.expression
+                if (expression instanceof AssignExpression) {
+                    testIdentifier(expression.target, 'x')
+                    expect(expression.operator).toBe(operator)
+                    testNumberLiteral(expression.value, 5)
+                } else {
+                    fail(`value is not AssignExpression. got=${expression}`)
+                }
+            })
+        })
+    })
+    test('match expressions', () => {
+        [
+            ['match (x) { 1 => "one", _ => "many" }', 'match (x) { 1 => one, _ => many }'],
+            ['match (x) { [a, ...r] if a > 0 => a, {"k": -1} => 0, }', 'match (x) { [a, ...r] if (a > 0) => a, {"k": (-1)} => 0 }'],
+            ['match (f(x)) { }', 'match (f(x)) {  }'],
+            ['match (x) { n => n + 1 }; y', 'match (x) { n => (n + 1) }y'],
+        ].forEach(([input, expected]) => {
+            expect(createProgram(input).toString()).toBe(expected)
+        })
+        const program = createProgram('match (x) { [0, _] => true, y if y => false }')
+        checkExpressionStatement(program.statements[0], (statement) => {
+            const match = statement.expression as MatchExpression
+            expect(match).toBeInstanceOf(MatchExpression)
+            testIdentifier(match.subject, 'x')
+            const [first, second] = match.arms
+            const pattern = first.pattern as ArrayPattern
+            expect(pattern.elements[0]).toBeInstanceOf(LiteralPattern)
+            expect(pattern.elements[1]).toBeInstanceOf(WildcardPattern)
+            expect(first.guard).toBeNull()
+            testBooleanLiteral(first.body, true)
+            testIdentifier(second.pattern, 'y')
+            testIdentifier(second.guard, 'y')
+        })
+    })
+    test('destructuring let statements', () => {
+        [
+            ['let [a, b] = pair;', 'let [a, b] = pair'],
+            ['let [first, [x, y], ...rest] = xs', 'let [first, [x, y], ...rest] = xs'],
+            ['const {"name": n, "tags": [t]} = person;', 'const {"name": n, "tags": [t]} = person'],
+            ['let [] = [];', 'let [] = []'],
+        ].forEach(([input, expected]) => {
+            const program = createProgram(input)
+            countStatements(1, program)
+            const statement = program.statements[0]
+            expect(statement).toBeInstanceOf(DestructuringLetStatement)
+            expect(statement.toString()).toBe(expected)
+        })
+        const statement = createProgram('let [a, ...r] = xs').statements[0] as DestructuringLetStatement
+        const pattern = statement.pattern as ArrayPattern
+        testIdentifier(pattern.elements[0], 'a')
+        testIdentifier(pattern.rest, 'r')
+        expect(statement.constant).toBe(false)
+    })
+    test('pattern parameters', () => {
+        const program = createProgram('fn([a, b], {"k": v} = {}) { a }')
+        checkExpressionStatement(program.statements[0], (statement) => {
+            checkFunctionLiteral(statement.expression, (fun) => {
+                const [first, second] = fun.parameters
+                expect(first.pattern).toBeInstanceOf(ArrayPattern)
+                expect(first.value).toBe('[a, b]')
+                expect(second.pattern).toBeInstanceOf(HashPattern)
+                expect(second.defaultValue).toBeInstanceOf(HashLiteral)
+            })
+        })
+    })
+    test('const statements', () => {
+        const program = createProgram('const answer = 42; let other = answer;')
+        const [first, second] = program.statements
+        if (first instanceof LetStatement && second instanceof LetStatement) {
+            expect(first.tokenLiteral()).toBe('const')
+            expect(first.constant).toBe(true)
+            expect(first.toString()).toBe('const answer = 42')
+            expect(second.constant).toBe(false)
+        } else {
+            fail(`value is not LetStatement. got=${first}`)
+        }
+    })
+    test('while statement', () => {
+        const program = createProgram('while (x < 10) { let x = x + 1; if (x == 5) { break; } continue }')
+        countStatements(1, program)
+        const statement = program.statements[0]
+        if (statement instanceof WhileStatement) {
+            testInfixExpression<string | number>(statement.condition, 'x', '<', 10)
+            expect(statement.body.statements.length).toBe(3)
+            expect(statement.body.statements[2]).toBeInstanceOf(ContinueStatement)
+            checkExpressionStatement(statement.body.statements[1], (exp) => {
+                checkIfExpression(exp.expression, (ifExpression) => {
+                    expect(ifExpression.consequence.statements[0]).toBeInstanceOf(BreakStatement)
+                })
+            })
+            expect(statement.span.toString()).toBe('1:1-1:66')
+        } else {
+            fail(`value is not WhileStatement. got=${statement}`)
+        }
+    })
+    test('for statement', () => {
+        const program = createProgram('for (item in [1, 2]) { puts(item) }; let after = 1;')
+        countStatements(2, program)
+        const statement = program.statements[0]
+        if (statement instanceof ForStatement) {
+            testIdentifier(statement.variable, 'item')
+            expect(statement.iterable).toBeInstanceOf(ArrayLiteral)
+            expect(statement.body.toString()).toBe('puts(item)')
+            expect(statement.toString()).toBe('for (item in [1, 2]) puts(item)')
+        } else {
+            fail(`value is not ForStatement. got=${statement}`)
+        }
+        testLetStatement(program.statements[1], 'after')
+    })
+    test('node spans', () => {
+        const input = `let add = fn(x, y) {
+    x + y;
+};
+add(1, (2 * 3))`
+        const program = createProgram(input)
+        countStatements(2, program)
+        const letStatement = program.statements[0] as LetStatement
+        expect(letStatement.span.toString()).toBe('1:1-3:3')
+        expect(letStatement.name.span.toString()).toBe('1:5-1:8')
+        checkFunctionLiteral(letStatement.value, (fun) => {
+            expect(fun.span.toString()).toBe('1:11-3:2')
+            expect(fun.parameters?.at(1)?.span.toString()).toBe('1:17-1:18')
+            expect(fun.body?.span.toString()).toBe('1:20-3:2')
+            checkExpressionStatement(fun.body?.statements?.at(0), (statement) => {
+                expect(statement.span.toString()).toBe('2:5-2:11')
+                expect(statement.expression?.span.toString()).toBe('2:5-2:10')
+            })
+        })
+        checkExpressionStatement(program.statements[1], (statement) => {
+            const call = statement.expression as CallExpression
+            expect(call.span.toString()).toBe('4:1-4:16')
+            expect(call.args?.at(0)?.span.toString()).toBe('4:5-4:6')
+            expect(call.args?.at(1)?.span.toString()).toBe('4:8-4:15')
+        })
+    })
+    test('error recovery', () => {
+        [
+            new Triple('let = 5; let y = 2; let z 3;', '<error>let y = 2<error>', [
+                'Expected next token to be IDENT, got = instead',
+                'Expected next token to be =, got INT instead',
+            ]),
+            new Triple('let f = fn(x) { x + ; }; f(1);', 'let f = fn(x) (x + <error>)f(1)', [
+                'No prefix parser for ; function',
+            ]),
+            new Triple('if (x { y } let a = 1;', '<error>let a = 1', [
+                'Expected next token to be ), got { instead',
+            ]),
+            new Triple('fn() { {"a": 1 "b": 2} }; let q = ;', 'fn() <error>let q = <error>', [
+                'Expected next token to be ,, got STRING instead',
+                'No prefix parser for ; function',
+            ]),
+            new Triple('add(1, , 2); let y = 3;', '<error>let y = 3', [
+                'No prefix parser for , function',
+            ]),
+            new Triple('fn() { x + ', 'fn() (x + <error>)', [
+                'No prefix parser for EOF function',
+            ]),
+            new Triple('{"a": 1, "b" 2}', '<error>', [
+                'Expected next token to be :, got INT instead',
+            ]),
+            new Triple('let a = 1 # 2; let b = a;', 'let a = 1<error>let b = a', [
+                "illegal character '#'",
+            ]),
+            ...['(@', '[@', 'f(@', '{@: 1'].map(input => new Triple(input, '<error>', ["illegal character '@'"])),
+            new Triple('let x = (@', 'let x = <error>', [
+                "illegal character '@'",
+            ]),
+            new Triple('fn(@) {}', '<error>', [
+                "illegal character '@'",
+            ]),
+            new Triple('let [@] = xs; f(1 @); let ok = 1;', '<error><error>let ok = 1', [
+                "illegal character '@'",
+                "illegal character '@'",
+            ]),
+            new Triple('let a = 1; /* unclosed', 'let a = 1', [
+                'unterminated block comment',
+            ]),
+            new Triple('let a = "open; let b = 2;', 'let a = <error>', [
+                'unterminated string',
+            ]),
+            new Triple('break; let a = 1; fn() { continue }', '<error>let a = 1fn() <error>', [
+                'break outside of a loop',
+                'continue outside of a loop',
+            ]),
+            new Triple('while (x) { fn() { break } }', 'while x fn() <error>', [
+                'break outside of a loop',
+            ]),
+            new Triple('for (1 in xs) { x } let a = 2;', '<error>let a = 2', [
+                'Expected next token to be IDENT, got INT instead',
+            ]),
+            new Triple('|1| x; |x x; while (a) { |x| { break } }; let ok = 1;', '<error><error>while a |x| <error>let ok = 1', [
+                'expected a parameter name, got INT',
+                'Expected next token to be |, got IDENT instead',
+                'break outside of a loop',
+            ]),
+            new Triple('match (x) { y if ok => 1, _ => 2 }', 'match (x) { y if ok => 1, _ => 2 }', []),
+            new Triple('a[1:2] = 3; ...x; a[1:2:3]; let ok = 1;', '<error><error><error>let ok = 1', [
+                "can't assign to (a[1:2])",
+                'No prefix parser for ... function',
+                'Expected next token to be ], got : instead',
+            ]),
+            new Triple('a?.1; a?.[0] = 1; a.1; a?.b = 2; let ok = null;', '<error><error><error><error>let ok = null', [
+                'Expected next token to be IDENT, [ or (, got INT instead',
+                "can't assign to (a?.[0])",
+                'Expected next token to be IDENT, got INT instead',
+                "can't assign to (a?.b)",
+            ]),
+            new Triple('1 = 2; f() += 1; [1][0] = 2; let ok = 1;', '<error><error>(([1][0]) = 2)let ok = 1', [
+                "can't assign to 1",
+                "can't assign to f()",
+            ]),
+            new Triple('let f = fn(1, x) { x }; let g = 2;', 'let f = <error>let g = 2', [
+                'expected a parameter name, got INT',
+            ]),
+            new Triple('fn(...a, b) { a }; fn(...a = 1) { a }; fn(...) {}', '<error><error><error>', [
+                'a rest parameter must be the last one',
+                "a rest parameter can't have a default value",
+                'expected a parameter name, got )',
+            ]),
+            new Triple('let f = fn(x = 1, y) { y }; fn(a = 1, ...b) { b }', 'let f = <error>fn(a = 1...b) b', [
+                "a required parameter can't follow one with a default value",
+            ]),
+            new Triple('let [a, 1] = xs; let [...r, b] = xs; let {"a" b} = h; let ok = 1;', '<error><error><error>let ok = 1', [
+                'expected a pattern, got INT',
+                'a rest pattern must be the last one',
+                'Expected next token to be :, got IDENT instead',
+            ]),
+            new Triple('match (x) { 1 -> 2 }; let [_] = y; match (x) { a + 1 => 2 }; 3', '<error>let [_] = y<error>3', [
+                'Expected next token to be =>, got - instead',
+                'Expected next token to be =>, got + instead',
+            ]),
+            new Triple('match (x) { -a => 1 }; match x; 2', '<error><error>2', [
+                'expected a pattern, got -',
+                'Expected next token to be (, got IDENT instead',
+            ]),
+            new Triple('const = 1; const b = 2;', '<error>const b = 2', [
+                'Expected next token to be IDENT, got = instead',
+            ]),
+            new Triple('let a = "${}"; let b = "${1 +}";', 'let a = "${<error>}"let b = "${<error>}"', [
+                'expected a single expression inside ${...}',
+                'No prefix parser for EOF function',
+            ]),
+        ].forEach(({first: input, second: expectedProgram, third: expectedErrors}) => {
+            const parser = new Parser(new Lexer(input))
+            const program = parser.parseProgram()
+            expect(parser.errors()).toEqual(expectedErrors)
+            expect(program.toString()).toBe(expectedProgram)
+        })
+    })
+})
@@ -0,0 +1,66 @@
+import {Lexer} from '../src/lexer';
+import {Parser} from '../src/parser';
+import {Environment, evaluate} from '../src/evaluator';
+import {MArray, MInteger, MObject, MString} from '../src/objects';
+import {print, quote} from '../src/printer';
+
+function testEval(input: string): MObject | null {
+    return evaluate(new Parser(new Lexer(input)).parseProgram(), Environment.newEnvironment())
+}
+
+describe('printer tests', () => {
+    test('quote strings', () => {
+        [
+            ['plain', '"plain"'],
+            ['say "hi"', '"say \\"hi\\""'],
+            ['a\nb\tc\\', '"a\\nb\\tc\\\\"'],
+            ['${x} and $y', '"\\${x} and $y"'],
+            ['\x01', '"\\u{1}"'],
+        ].forEach(([value, expected]) => {
+            expect(quote(value)).toBe(expected)
+        })
+    })
+    test('inspect values', () => {
+        [
+            ['[1, 2, 3]', '[1, 2, 3]'],
+            ['["a", "b\\n"]', '["a", "b\\n"]'],
+            ['[1, [2.0, [true, "x"]], []]', '[1, [2.0, [true, "x"]], []]'],
+            ['{"name": "Monkey", 1: [fn(x) { x }][0] == 1}', '{"name": "Monkey", 1: false}'],
+            ['{true: {"nested": {}}}', '{true: {"nested": {}}}'],
+            ['"top level"', '"top level"'],
+            ['"${[1, "two"]}"', '"[1, \\"two\\"]"'],
+        ].forEach(([input, expected]) => {
+            expect(testEval(input)?.inspect()).toBe(expected)
+        })
+    })
+    test('cycles', () => {
+        expect(testEval('let a = [1]; push(a, a); a')?.inspect()).toBe('[1, <cycle>]')
+        expect(testEval('let a = [1]; push(a, {"self": a}); a')?.inspect()).toBe('[1, {"self": <cycle>}]')
+        const shared = new MArray([new MInteger(1)])
+        expect(print(new MArray([shared, shared]))).toBe('[[1], [1]]')
+    })
+    test('pretty mode', () => {
+        const value = testEval('{"a": [1, [2]], "b": {}}')
+        expect(print(value, {pretty: true})).toBe([
+            '{',
+            '  "a": [',
+            '    1,',
+            '    [',
+            '      2',
+            '    ]',
+            '  ],',
+            '  "b": {}',
+            '}',
+        ].join('\n'))
+        expect(print(new MArray([new MString('x')]), {pretty: true, indent: 4})).toBe('[\n    "x"\n]')
+    })
+    test('depth and width cutoffs', () => {
+        const value = testEval('[1, [2, [3, [4]]], 5, 6]')
+        expect(print(value, {maxDepth: 2})).toBe('[1, [2, [...]], 5, 6]')
+        expect(print(value, {maxDepth: 0})).toBe('[...]')
+        expect(print(value, {maxWidth: 2})).toBe('[1, [2, [3, [4]]], ...]')
+        expect(print(value, {maxWidth: 1, maxDepth: 1})).toBe('[1, ...]')
+        expect(print(testEval('{"a": 1, "b": 2}'), {maxWidth: 1})).toBe('{"a": 1, ...}')
+        expect(print(testEval('[[]]'), {maxDepth: 1})).toBe('[[]]')
+    })
+})
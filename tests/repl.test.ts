@@ -0,0 +1,109 @@
+import {mkdtempSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {isIncomplete, Repl} from '../src/repl';
+import {BufferSink, OutputSink, setOutputSink} from '../src/output';
+
+describe('repl tests', () => {
+    const sink = new BufferSink()
+    let previous: OutputSink
+
+    beforeEach(() => {
+        sink.clear()
+        previous = setOutputSink(sink)
+    })
+    afterEach(() => {
+        setOutputSink(previous)
+    })
+
+    test('incomplete input', () => {
+        [
+            ['let add = fn(a, b) {', true],
+            ['let add = fn(a, b) { a + b }', false],
+            ['[1, 2,', true],
+            ['puts(', true],
+            ['"open string', true],
+            ['/* open comment', true],
+            ['"${"}"}"', false],
+            ['1 + }', false],
+        ].forEach(([input, expected]) => {
+            expect(isIncomplete(input as string)).toBe(expected)
+        })
+    })
+    test('multi-line input', () => {
+        const repl = new Repl()
+        expect(repl.prompt()).toBe('>> ')
+        repl.feed('let add = fn(a, b) {')
+        expect(repl.prompt()).toBe('.. ')
+        repl.feed('  a + b')
+        repl.feed('};')
+        expect(repl.prompt()).toBe('>> ')
+        repl.feed('add(1, [2,')
+        repl.feed('3][0])')
+        expect(sink.out).toBe('fn(a, b) {\n\t(a + b)\n}\n3\n')
+    })
+    test('blank line submits unbalanced input', () => {
+        const repl = new Repl()
+        repl.feed('let x = (1')
+        repl.feed('')
+        expect(repl.prompt()).toBe('>> ')
+        expect(sink.err).toContain('error[P0003]')
+    })
+    test('syntax errors skip evaluation', () => {
+        const repl = new Repl()
+        repl.feed('puts("side effect"); let = 2;')
+        expect(sink.out).toBe('')
+        expect(sink.err).toContain('error[')
+    })
+    test('meta-commands', () => {
+        const repl = new Repl()
+        repl.feed(':tokens let x = "a";')
+        expect(sink.out.split('\n')[0]).toBe('1:1-1:4    LET      "let"')
+        sink.clear()
+
+        repl.feed(':ast 1 + 2 * 3')
+        expect(sink.out).toBe('ExpressionStatement (1 + (2 * 3))\n')
+        sink.clear()
+
+        repl.feed('let b = "two"; let a = [1, b];')
+        repl.feed(':env')
+        expect(sink.out).toBe('[1, "two"]\na = [1, "two"]\nb = "two"\n')
+        sink.clear()
+
+        repl.feed(':reset')
+        repl.feed(':env')
+        expect(sink.out).toBe('')
+
+        repl.feed(':time 1 + 1')
+        expect(sink.out).toMatch(/^2\ntime: \d+\.\d{3}ms\n$/)
+
+        repl.feed(':nope')
+        expect(sink.err).toBe('unknown command :nope, :help lists them\n')
+        expect(repl.feed(':quit')).toBe(false)
+    })
+    test('completion', () => {
+        const repl = new Repl()
+        repl.feed('let person = "ana"; let persist = true; let pusher = 1;')
+        expect(repl.complete('puts(pers')).toEqual([['persist', 'person'], 'pers'])
+        expect(repl.complete('pu')).toEqual([['push', 'pusher', 'puts'], 'pu'])
+        expect(repl.complete('le')).toEqual([['len', 'let'], 'le'])
+        expect(repl.complete('1 + ')).toEqual([[], ''])
+        expect(repl.complete(':t')).toEqual([[':tokens', ':time'], ':t'])
+    })
+    test('colored output', () => {
+        const repl = new Repl(true)
+        repl.feed('[1, "a"]')
+        expect(sink.out).toBe('[\x1b[33m1\x1b[0m, \x1b[32m"a"\x1b[0m]\n')
+    })
+    test('load files', () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'monkey-')), 'lib.mk')
+        writeFileSync(file, 'let double = fn(x) {\n  x * 2\n};\ndouble(1)')
+        const repl = new Repl()
+        repl.feed(`:load ${file}`)
+        expect(sink.out).toBe('')
+        repl.feed('double(21)')
+        expect(sink.out).toBe('42\n')
+        repl.feed(':load /missing/lib.mk')
+        expect(sink.err).toContain("can't read /missing/lib.mk")
+    })
+})